@@ -0,0 +1,200 @@
+// FEDERATION HEARTBEAT
+// One scheduler per satellite, shared by every hook. Posts a structured health payload to the core every
+// HEARTBEAT_INTERVAL_MS, tracks round-trip latency and rolling availability, and pauses while the tab is hidden.
+// Beats are liveness probes, not governed actions: they bypass the kernel so they never land in its ledger
+// (one record per beat would fill localStorage within a day).
+
+import { federationUrl, getFederationConfig } from './loadConfig';
+
+export interface HeartbeatHealthPayload {
+  satellite_id: string;
+  version: string;
+  capabilities: readonly string[];
+  kernel_boot_counter: number | null;
+  queue_depth: number;
+  last_sync_utc: string | null;
+  sent_utc: string;
+}
+
+/** Values owned by other modules (kernel, sync queue); pushed in with report(). */
+export interface HeartbeatContributions {
+  kernel_boot_counter: number | null;
+  queue_depth: number;
+}
+
+export interface HeartbeatSnapshot {
+  connected: boolean;
+  coreStatus: 'online' | 'offline';
+  lastSync: string | null;             // last successful beat
+  lastLatencyMs: number | null;
+  avgLatencyMs: number | null;         // over successful beats in the window
+  availabilityPct: number | null;      // successful beats / beats in the window; null before the first beat
+  paused: boolean;                     // tab hidden
+}
+
+interface BeatSample {
+  ok: boolean;
+  latencyMs: number;
+}
+
+const AVAILABILITY_WINDOW = 20;
+
+export class HeartbeatService {
+  private readonly listeners = new Set<(s: HeartbeatSnapshot) => void>();
+  private readonly samples: BeatSample[] = [];
+  private contributions: HeartbeatContributions = { kernel_boot_counter: null, queue_depth: 0 };
+  private snapshot: HeartbeatSnapshot = {
+    connected: false,
+    coreStatus: 'offline',
+    lastSync: null,
+    lastLatencyMs: null,
+    avgLatencyMs: null,
+    availabilityPct: null,
+    paused: false
+  };
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<boolean> | null = null;
+
+  constructor(
+    readonly satelliteId: string,
+    private readonly send: (payload: HeartbeatHealthPayload, signal: AbortSignal) => Promise<boolean> = postHeartbeat
+  ) {}
+
+  /** Starts beating with the first subscriber and stops after the last one leaves. */
+  subscribe(listener: (s: HeartbeatSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot);
+    if (this.listeners.size === 1) this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  getSnapshot(): HeartbeatSnapshot {
+    return this.snapshot;
+  }
+
+  report(update: Partial<HeartbeatContributions>): void {
+    this.contributions = { ...this.contributions, ...update };
+  }
+
+  /** Sends one beat now; concurrent callers share the in-flight beat. */
+  beat(): Promise<boolean> {
+    if (!this.inFlight) this.inFlight = this.runBeat().finally(() => (this.inFlight = null));
+    return this.inFlight;
+  }
+
+  private async runBeat(): Promise<boolean> {
+    const config = getFederationConfig();
+    const payload: HeartbeatHealthPayload = {
+      satellite_id: this.satelliteId,
+      version: config.VERSION,
+      capabilities: config.SOVEREIGN_CAPABILITIES,
+      ...this.contributions,
+      last_sync_utc: this.snapshot.lastSync,
+      sent_utc: new Date().toISOString()
+    };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), config.FEDERATION_TIMEOUT_MS);
+    const started = Date.now();
+    let ok = false;
+    try {
+      ok = await this.send(payload, controller.signal);
+    } catch (e) {
+      console.warn('[Heartbeat] Beat failed:', e);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+    this.record({ ok, latencyMs: Date.now() - started });
+    return ok;
+  }
+
+  private record(sample: BeatSample): void {
+    this.samples.push(sample);
+    if (this.samples.length > AVAILABILITY_WINDOW) this.samples.shift();
+
+    const okSamples = this.samples.filter(s => s.ok);
+    this.update({
+      connected: sample.ok,
+      coreStatus: sample.ok ? 'online' : 'offline',
+      lastSync: sample.ok ? new Date().toISOString() : this.snapshot.lastSync,
+      lastLatencyMs: sample.ok ? sample.latencyMs : this.snapshot.lastLatencyMs,
+      avgLatencyMs: okSamples.length ? Math.round(okSamples.reduce((sum, s) => sum + s.latencyMs, 0) / okSamples.length) : null,
+      availabilityPct: Math.round((okSamples.length / this.samples.length) * 1000) / 10
+    });
+  }
+
+  private update(next: Partial<HeartbeatSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...next };
+    this.listeners.forEach(l => l(this.snapshot));
+  }
+
+  private start(): void {
+    if (typeof document !== 'undefined') document.addEventListener('visibilitychange', this.onVisibilityChange);
+    if (this.isHidden()) {
+      this.update({ paused: true });
+      return;
+    }
+    this.loop();
+  }
+
+  private stop(): void {
+    if (typeof document !== 'undefined') document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    this.clearTimer();
+  }
+
+  private loop = (): void => {
+    this.clearTimer();
+    this.beat().finally(() => {
+      // Overlapping loops (visibility flips mid-beat) share one beat; only the first reschedules.
+      if (this.listeners.size > 0 && !this.isHidden() && !this.timer) {
+        this.timer = setTimeout(this.loop, getFederationConfig().HEARTBEAT_INTERVAL_MS);
+      }
+    });
+  };
+
+  private onVisibilityChange = (): void => {
+    if (this.isHidden()) {
+      this.clearTimer();
+      this.update({ paused: true });
+    } else {
+      this.update({ paused: false });
+      this.loop(); // beat immediately on return so the status is fresh
+    }
+  };
+
+  private isHidden(): boolean {
+    return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+async function postHeartbeat(payload: HeartbeatHealthPayload, signal: AbortSignal): Promise<boolean> {
+  const res = await fetch(federationUrl('NEURAL_LINK_ENDPOINT'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'heartbeat', satellite_id: payload.satellite_id, health: payload }),
+    signal
+  });
+  return res.ok;
+}
+
+const services = new Map<string, HeartbeatService>();
+
+/** The shared heartbeat for a satellite; hooks subscribe to it instead of running their own intervals. */
+export function getHeartbeatService(satelliteId: string): HeartbeatService {
+  let service = services.get(satelliteId);
+  if (!service) {
+    service = new HeartbeatService(satelliteId);
+    services.set(satelliteId, service);
+  }
+  return service;
+}
+
+export default getHeartbeatService;
@@ -0,0 +1,183 @@
+// FEDERATION CONFIG LOADER
+// Single source of the typed federation config. Layers, lowest to highest precedence:
+//   defaults -> synced file (./config, from ECHO-001) -> import.meta.env (VITE_FEDERATION_<KEY>) -> runtime override
+// The merged result is validated once; a bad config fails startup with every problem listed.
+
+import SYNCED_FEDERATION_CONFIG from './config';
+
+export interface FederationConfig {
+  CORE_URL: string;
+  SYNC_KEY_NAME: string;
+  SYNC_ENDPOINT: string;
+  SOVEREIGN_ENDPOINT: string;
+  NEURAL_LINK_ENDPOINT: string;
+  HEARTBEAT_INTERVAL_MS: number;
+  FEDERATION_TIMEOUT_MS: number;
+  VERSION: string;
+  SATELLITE_COUNT: number;
+  SOVEREIGN_CAPABILITIES: readonly string[];
+}
+
+export type FederationConfigSource = 'defaults' | 'synced' | 'env' | 'runtime';
+
+export interface FederationConfigProblem {
+  key: string;
+  source: FederationConfigSource | 'unknown';
+  message: string;
+}
+
+export class FederationConfigError extends Error {
+  constructor(readonly problems: FederationConfigProblem[]) {
+    super(`Invalid federation config:\n${problems.map(p => `  - ${p.key} (${p.source}): ${p.message}`).join('\n')}`);
+    this.name = 'FederationConfigError';
+  }
+}
+
+export const DEFAULT_FEDERATION_CONFIG: FederationConfig = {
+  CORE_URL: 'https://yokxmlatktvxqymxtktn.supabase.co',
+  SYNC_KEY_NAME: 'FEDERATED_SYNC_KEY',
+  SYNC_ENDPOINT: '/functions/v1/federation-receiver',
+  SOVEREIGN_ENDPOINT: '/functions/v1/sovereign-fallback',
+  NEURAL_LINK_ENDPOINT: '/functions/v1/neural-link-ipc',
+  HEARTBEAT_INTERVAL_MS: 30000,
+  FEDERATION_TIMEOUT_MS: 3000,
+  VERSION: '2.0.0',
+  SATELLITE_COUNT: 27,
+  SOVEREIGN_CAPABILITIES: [
+    'local_reasoning',
+    'grls_rehydration',
+    'memory_persistence',
+    'governance_enforcement',
+    'sync_queue'
+  ]
+};
+
+const NUMERIC_KEYS = ['HEARTBEAT_INTERVAL_MS', 'FEDERATION_TIMEOUT_MS', 'SATELLITE_COUNT'] as const;
+const ENDPOINT_KEYS = ['SYNC_ENDPOINT', 'SOVEREIGN_ENDPOINT', 'NEURAL_LINK_ENDPOINT'] as const;
+const KNOWN_KEYS = Object.keys(DEFAULT_FEDERATION_CONFIG) as (keyof FederationConfig)[];
+
+type ConfigLayer = Partial<Record<keyof FederationConfig, unknown>>;
+
+/** ---------- Sources ---------- **/
+
+// import.meta.env only exists under Vite; the kernel also runs in plain Node.
+function viteEnv(): Record<string, string | undefined> {
+  return ((import.meta as unknown as { env?: Record<string, string | undefined> }).env) ?? {};
+}
+
+/** Maps VITE_FEDERATION_<KEY> (and the legacy VITE_SUPABASE_URL) onto config keys; values stay strings until coerced. */
+export function envLayer(env: Record<string, string | undefined> = viteEnv()): ConfigLayer {
+  const layer: ConfigLayer = {};
+  if (env.VITE_SUPABASE_URL) layer.CORE_URL = env.VITE_SUPABASE_URL;
+  KNOWN_KEYS.forEach(key => {
+    const raw = env[`VITE_FEDERATION_${key}`];
+    if (raw === undefined || raw === '') return;
+    layer[key] = key === 'SOVEREIGN_CAPABILITIES' ? raw.split(',').map(s => s.trim()).filter(Boolean) : raw;
+  });
+  return layer;
+}
+
+/** Runtime override injected by the host page, e.g. `window.__ACIP_FEDERATION_CONFIG__ = { CORE_URL: ... }`. */
+function globalRuntimeLayer(): ConfigLayer {
+  return ((globalThis as unknown as { __ACIP_FEDERATION_CONFIG__?: ConfigLayer }).__ACIP_FEDERATION_CONFIG__) ?? {};
+}
+
+/** ---------- Merge + validate ---------- **/
+
+// Env values arrive as strings; unparseable numbers stay strings so the report shows what was given.
+function coerce(key: keyof FederationConfig, value: unknown): unknown {
+  if ((NUMERIC_KEYS as readonly string[]).includes(key) && typeof value === 'string' && Number.isFinite(Number(value))) return Number(value);
+  return value;
+}
+
+function validate(config: Record<string, unknown>, origin: Record<string, FederationConfigSource>): FederationConfigProblem[] {
+  const problems: FederationConfigProblem[] = [];
+  const report = (key: string, message: string) => problems.push({ key, source: origin[key] ?? 'unknown', message });
+
+  Object.keys(config).forEach(key => {
+    if (!KNOWN_KEYS.includes(key as keyof FederationConfig)) report(key, 'unknown key');
+  });
+
+  try {
+    const url = new URL(String(config.CORE_URL));
+    if (url.protocol !== 'https:' && url.hostname !== 'localhost') report('CORE_URL', 'must use https (http allowed only for localhost)');
+  } catch {
+    report('CORE_URL', `not a valid URL: ${JSON.stringify(config.CORE_URL)}`);
+  }
+
+  if (typeof config.SYNC_KEY_NAME !== 'string' || !/^[A-Z][A-Z0-9_]*$/.test(config.SYNC_KEY_NAME)) {
+    report('SYNC_KEY_NAME', 'must be an UPPER_SNAKE_CASE secret name');
+  }
+
+  ENDPOINT_KEYS.forEach(key => {
+    const v = config[key];
+    if (typeof v !== 'string' || !v.startsWith('/') || /\s/.test(v)) report(key, `must be a path starting with "/", got ${JSON.stringify(v)}`);
+  });
+
+  NUMERIC_KEYS.forEach(key => {
+    const v = config[key];
+    if (typeof v !== 'number' || !Number.isInteger(v) || v <= 0) report(key, `must be a positive integer, got ${JSON.stringify(v)}`);
+  });
+
+  if (typeof config.VERSION !== 'string' || !/^\d+\.\d+\.\d+$/.test(config.VERSION)) report('VERSION', 'must be MAJOR.MINOR.PATCH');
+
+  const caps = config.SOVEREIGN_CAPABILITIES;
+  if (!Array.isArray(caps) || caps.length === 0) {
+    report('SOVEREIGN_CAPABILITIES', 'must be a non-empty list');
+  } else {
+    caps.filter(c => typeof c !== 'string' || !/^[a-z][a-z0-9_]*$/.test(c))
+      .forEach(c => report('SOVEREIGN_CAPABILITIES', `invalid capability ${JSON.stringify(c)} (snake_case expected)`));
+    if (new Set(caps).size !== caps.length) report('SOVEREIGN_CAPABILITIES', 'contains duplicates');
+  }
+
+  return problems;
+}
+
+/** Merges the layers and validates the result; throws FederationConfigError listing every problem. */
+export function loadFederationConfig(sources: {
+  synced?: ConfigLayer;
+  env?: ConfigLayer;
+  runtime?: ConfigLayer;
+} = {}): FederationConfig {
+  const layers: [FederationConfigSource, ConfigLayer][] = [
+    ['defaults', DEFAULT_FEDERATION_CONFIG],
+    ['synced', sources.synced ?? (SYNCED_FEDERATION_CONFIG as ConfigLayer)],
+    ['env', sources.env ?? envLayer()],
+    ['runtime', sources.runtime ?? globalRuntimeLayer()]
+  ];
+
+  const merged: Record<string, unknown> = {};
+  const origin: Record<string, FederationConfigSource> = {};
+  layers.forEach(([source, layer]) => {
+    Object.entries(layer).forEach(([key, value]) => {
+      if (value === undefined) return;
+      merged[key] = coerce(key as keyof FederationConfig, value);
+      origin[key] = source;
+    });
+  });
+
+  const problems = validate(merged, origin);
+  if (problems.length) throw new FederationConfigError(problems);
+
+  return Object.freeze({ ...merged, SOVEREIGN_CAPABILITIES: Object.freeze([...(merged.SOVEREIGN_CAPABILITIES as string[])]) }) as FederationConfig;
+}
+
+/** ---------- Shared instance ---------- **/
+
+let current: FederationConfig | null = null;
+
+/** The validated config every hook reads. Loaded on first use; throws at startup if invalid. */
+export function getFederationConfig(): FederationConfig {
+  if (!current) current = loadFederationConfig();
+  return current;
+}
+
+/** Absolute URL for one of the endpoint paths, e.g. federationUrl('SOVEREIGN_ENDPOINT'). */
+export function federationUrl(endpoint: typeof ENDPOINT_KEYS[number], config: FederationConfig = getFederationConfig()): string {
+  return `${config.CORE_URL.replace(/\/+$/, '')}${config[endpoint]}`;
+}
+
+/** Validated at import, so an invalid config stops the app before any hook runs. */
+export const FEDERATION_CONFIG: FederationConfig = getFederationConfig();
+
+export default FEDERATION_CONFIG;
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import type { User, Session } from '@supabase/supabase-js';
+import { wipeEdgeCaches } from '@/satellites/shared/edgeMemoryCache';
+import { discardOfflineSyncQueues } from '@/satellites/shared/OfflineSyncQueue';
 
 export const useAuth = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -35,8 +37,13 @@ export const useAuth = () => {
   };
 
   const signOut = async () => {
+    const userId = user?.id ?? null;
     const { error } = await supabase.auth.signOut();
     if (error) throw error;
+    // Edge memory cached on this device is personal data: stop its sync queues, then wipe the caches and queues
+    // and destroy the user's cache key.
+    await discardOfflineSyncQueues();
+    await wipeEdgeCaches(userId);
   };
 
   return { user, session, loading, signIn, signUp, signOut, isAuthenticated: !!user };
@@ -1,26 +1,18 @@
-import { useState, useEffect, useCallback } from 'react';
-
-const FEDERATION_ENDPOINT = 'https://yokxmlatktvxqymxtktn.supabase.co/functions/v1';
+import { useState, useEffect } from 'react';
+import { getHeartbeatService } from '@/federation/heartbeat';
+import type { HeartbeatSnapshot } from '@/federation/heartbeat';
 
 export const useFederation = (satelliteId: string) => {
-  const [state, setState] = useState({ connected: false, lastSync: null as string | null, coreStatus: 'offline' as 'online'|'offline' });
-  const [loading, setLoading] = useState(true);
-
-  const checkConnection = useCallback(async () => {
-    try {
-      const res = await fetch(`${FEDERATION_ENDPOINT}/neural-link-ipc`, {
-        method: 'POST', headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'ping', satellite_id: satelliteId })
-      });
-      if (res.ok) { setState({ connected: true, coreStatus: 'online', lastSync: new Date().toISOString() }); return true; }
-    } catch (e) { console.warn('[Federation] Check failed:', e); }
-    setState(prev => ({ ...prev, connected: false, coreStatus: 'offline' }));
-    return false;
-  }, [satelliteId]);
+  const service = getHeartbeatService(satelliteId);
+  const [state, setState] = useState<HeartbeatSnapshot>(service.getSnapshot());
+  const [loading, setLoading] = useState(state.availabilityPct === null);
 
-  useEffect(() => { checkConnection().finally(() => setLoading(false)); const i = setInterval(checkConnection, 60000); return () => clearInterval(i); }, [checkConnection]);
+  useEffect(() => service.subscribe(s => {
+    setState(s);
+    if (s.availabilityPct !== null) setLoading(false);
+  }), [service]);
 
-  return { ...state, loading, checkConnection };
+  return { ...state, loading, checkConnection: () => service.beat() };
 };
 
-export default useFederation;
\ No newline at end of file
+export default useFederation;
@@ -0,0 +1,196 @@
+/**
+ * APPROVAL INBOX
+ * Operator view of pending kernel confirmation tickets (T2/T3 actions).
+ * Operators review the exact request before signing an APPROVE or DENY decision with their registered key.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ShieldCheck, ShieldX, Clock, Inbox } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { signConfirmationDecision, type ApproverSigningKey } from './approvalSigning';
+import { computeConfirmationDecisionDigest } from './federation/ConfirmationWorkflow';
+import type { ConfirmationDecisionKind, ConfirmationTicket } from './federation/ConfirmationWorkflow';
+import type { FederatedCapabilityKernel } from './federation/FederatedCapabilityKernel';
+
+export interface ApprovalInboxProps {
+  kernel: Pick<FederatedCapabilityKernel, 'listConfirmations' | 'decideConfirmation'>;
+  approverKey?: ApproverSigningKey;   // the operator's key pair; its public key must be in the kernel's ApproverKeyring
+  pollIntervalMs?: number;
+  onDecided?: (ticket: ConfirmationTicket) => void;
+}
+
+const formatRemaining = (expiresUtc: string) => {
+  const ms = Date.parse(expiresUtc) - Date.now();
+  if (ms <= 0) return 'expired';
+  const min = Math.floor(ms / 60000);
+  const sec = Math.floor((ms % 60000) / 1000);
+  return `${min}m ${String(sec).padStart(2, '0')}s`;
+};
+
+export const ApprovalInbox: React.FC<ApprovalInboxProps> = ({
+  kernel,
+  approverKey,
+  pollIntervalMs = 5000,
+  onDecided
+}) => {
+  const { user, session, isAuthenticated } = useAuth();
+  const [tickets, setTickets] = useState<ConfirmationTicket[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [busyTicket, setBusyTicket] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTickets(await kernel.listConfirmations({ status: 'PENDING' }));
+    } catch (e) {
+      console.error('[ApprovalInbox] Load error:', e);
+    }
+  }, [kernel]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, pollIntervalMs);
+    return () => clearInterval(interval);
+  }, [refresh, pollIntervalMs]);
+
+  const decide = useCallback(async (ticket: ConfirmationTicket, kind: ConfirmationDecisionKind) => {
+    if (!session?.access_token || !approverKey) return;
+    setBusyTicket(ticket.ticket_id);
+    setError(null);
+
+    try {
+      const decided_utc = new Date().toISOString();
+      const reason = reasons[ticket.ticket_id]?.trim() || undefined;
+      const digest = await computeConfirmationDecisionDigest({
+        ticket_id: ticket.ticket_id,
+        request_hash: ticket.request_hash,
+        kind,
+        decided_utc,
+        reason
+      });
+      const { signer_id, signature } = await signConfirmationDecision(approverKey, digest);
+
+      const res = await kernel.decideConfirmation({
+        ticket_id: ticket.ticket_id,
+        kind,
+        decided_utc,
+        reason,
+        credential: session.access_token,
+        signer_id,
+        signature
+      });
+
+      if (!res.ok) {
+        setError(res.error ?? 'DECISION_FAILED');
+        return;
+      }
+      if (res.ticket) onDecided?.(res.ticket);
+      await refresh();
+    } catch (e) {
+      console.error('[ApprovalInbox] Decision error:', e);
+      setError(e instanceof Error ? e.message : 'DECISION_FAILED');
+    } finally {
+      setBusyTicket(null);
+    }
+  }, [session, approverKey, reasons, kernel, onDecided, refresh]);
+
+  return (
+    <Card className="bg-background/95 backdrop-blur border-primary/20">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Inbox className="h-5 w-5 text-primary" />
+            Approval Inbox
+          </CardTitle>
+          <Badge variant="outline" className="text-xs">
+            {tickets.length} pending
+          </Badge>
+        </div>
+        {!isAuthenticated ? (
+          <p className="text-xs text-destructive">Sign in to approve or deny actions.</p>
+        ) : !approverKey ? (
+          <p className="text-xs text-destructive">No approver key loaded; decisions cannot be signed.</p>
+        ) : (
+          <p className="text-xs text-muted-foreground">Signing as {user?.email ?? user?.id}</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <div className="text-xs p-2 rounded bg-destructive/10 border border-destructive/20 text-destructive">
+            {error}
+          </div>
+        )}
+
+        {tickets.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No actions awaiting confirmation.</p>
+        )}
+
+        {tickets.map(ticket => (
+          <div key={ticket.ticket_id} className="p-3 rounded-lg bg-primary/5 border border-primary/20 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-mono text-sm">{ticket.operation}</span>
+              <div className="flex gap-2">
+                <Badge
+                  variant={ticket.risk_tier === 'T3_REGULATED' ? 'destructive' : 'secondary'}
+                  className="text-xs"
+                >
+                  {ticket.risk_tier}
+                </Badge>
+                <Badge variant="outline" className="text-xs flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  {formatRemaining(ticket.expires_utc)}
+                </Badge>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-1 text-xs text-muted-foreground">
+              <span>Action: <span className="font-mono">{ticket.action_id}</span></span>
+              <span>Trace: <span className="font-mono">{ticket.trace_id}</span></span>
+              <span>Requested: {new Date(ticket.requested_utc).toLocaleString()}</span>
+              <span>By: {ticket.requested_by}</span>
+            </div>
+
+            <pre className="text-xs font-mono p-2 rounded bg-background/50 border border-primary/10 max-h-48 overflow-auto">
+              {JSON.stringify(ticket.payload, null, 2)}
+            </pre>
+            <div className="text-[10px] font-mono text-muted-foreground truncate">
+              request_hash {ticket.request_hash}
+            </div>
+
+            <input
+              className="w-full text-xs p-2 rounded bg-background/50 border border-primary/10"
+              placeholder="Reason (optional)"
+              value={reasons[ticket.ticket_id] ?? ''}
+              onChange={e => setReasons(prev => ({ ...prev, [ticket.ticket_id]: e.target.value }))}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!isAuthenticated || !approverKey || busyTicket === ticket.ticket_id}
+                onClick={() => decide(ticket, 'DENY')}
+              >
+                <ShieldX className="h-4 w-4 mr-1" />
+                Deny
+              </Button>
+              <Button
+                size="sm"
+                disabled={!isAuthenticated || !approverKey || busyTicket === ticket.ticket_id}
+                onClick={() => decide(ticket, 'APPROVE')}
+              >
+                <ShieldCheck className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApprovalInbox;
@@ -4,13 +4,34 @@
  * with bi-hemispheric reasoning (ALPHA: analytical, OMEGA: intuitive)
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { forwardRef, useState, useEffect, useCallback, useImperativeHandle, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Brain, Zap, Activity, Shield, Split } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { supabase } from '@/integrations/supabase/client';
+import { getHeartbeatService } from '@/federation/heartbeat';
+import type { RecallableMemory, RecallHit, RecallOptions } from './memoryRecall';
+import { getHemisphereTelemetry, IDLE_HEMISPHERE_STATE } from './hemisphereTelemetry';
+import { abortError, type ReasoningStreamEvent } from './reasoningStream';
+import {
+  GOVERNANCE_RISK_TIERS,
+  GovernanceBlockedError,
+  runReasoningStage,
+  toReasoningResult,
+  type GovernanceVerdict,
+  type ReasoningKernel
+} from './reasoningGovernance';
+import { reasonLocally, RuleBasedReasoner, type LocalReasoner } from './localReasoner';
+import { useOptionalKernel } from './KernelProvider';
+import type { KnowledgeEntry } from './knowledgeMerge';
+import type { MemoryDigest } from './memoryRetention';
+import {
+  DEFAULT_CONVERSATION_POLICY,
+  getConversation,
+  type ConversationPolicy,
+  type ConversationTurn
+} from './conversationManager';
 
 export interface HemisphereState {
   alpha: {
@@ -27,6 +48,16 @@ export interface HemisphereState {
     coherence: number;
     arbitration: 'alpha-dominant' | 'omega-dominant' | 'balanced';
   };
+  // Where the numbers above come from: a rolling window of real requests (see hemisphereTelemetry).
+  telemetry: {
+    status: 'idle' | 'processing' | 'active';
+    samples: number;
+    in_flight: number;
+    avg_latency_ms: number | null;
+    avg_tokens: number | null;
+    error_rate: number | null;
+    last_request_utc: string | null;
+  };
 }
 
 export interface DualHemisphereCoreProps {
@@ -35,107 +66,70 @@ export interface DualHemisphereCoreProps {
   governanceMode?: 'standard' | 'strict' | 'autonomous';
   onStateChange?: (state: HemisphereState) => void;
   onReasoningComplete?: (result: ReasoningResult) => void;
+  onStreamEvent?: (event: ReasoningStreamEvent) => void;   // partial text and trace steps while a request streams
+  governance?: GovernanceVerdict | null;                    // overrides the lock's verdict, e.g. from a separate useDualHemisphere
+  kernel?: ReasoningKernel;                                 // defaults to the enclosing KernelProvider; requests are then GOV/DVAP-governed
   compact?: boolean;
 }
 
+// Requests run through useDualHemisphere.processStream, the one reasoning path; the handle only relays its events.
+export interface DualHemisphereCoreHandle {
+  process: (query: string, opts?: { signal?: AbortSignal }) => Promise<ReasoningResult>;
+}
+
 export interface ReasoningResult {
   response: string;
   confidence: number;
   hemisphere: 'alpha' | 'omega' | 'fused';
   reasoning_trace: string[];
-  governance_validated: boolean;
+  governance_validated: boolean;   // true only with a GOV ALLOW (and DVAP attestation where the tier requires it)
+  governance?: GovernanceVerdict;
 }
 
-export const DualHemisphereCore: React.FC<DualHemisphereCoreProps> = ({
+export const DualHemisphereCore = forwardRef<DualHemisphereCoreHandle, DualHemisphereCoreProps>(({
   satelliteId,
-  sessionId = crypto.randomUUID(),
+  sessionId,
   governanceMode = 'standard',
   onStateChange,
   onReasoningComplete,
+  onStreamEvent,
+  governance: governanceProp,
+  kernel: kernelProp,
   compact = false
-}) => {
-  const [state, setState] = useState<HemisphereState>({
-    alpha: { activity: 75, confidence: 0.85, reasoning: 'analytical' },
-    omega: { activity: 65, confidence: 0.78, reasoning: 'intuitive' },
-    fusion: { coherence: 82, arbitration: 'balanced' }
-  });
-  
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [lastReasoningTime, setLastReasoningTime] = useState<number | null>(null);
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setState(prev => {
-        const alphaActivity = Math.min(100, Math.max(40, prev.alpha.activity + (Math.random() - 0.5) * 8));
-        const omegaActivity = Math.min(100, Math.max(40, prev.omega.activity + (Math.random() - 0.5) * 10));
-        const coherence = (alphaActivity + omegaActivity) / 2 * 0.9 + Math.random() * 10;
-        
-        let arbitration: 'alpha-dominant' | 'omega-dominant' | 'balanced' = 'balanced';
-        if (alphaActivity > omegaActivity + 15) arbitration = 'alpha-dominant';
-        else if (omegaActivity > alphaActivity + 15) arbitration = 'omega-dominant';
-        
-        const newState = {
-          alpha: { 
-            ...prev.alpha, 
-            activity: alphaActivity,
-            confidence: Math.min(0.99, Math.max(0.6, prev.alpha.confidence + (Math.random() - 0.5) * 0.05))
-          },
-          omega: { 
-            ...prev.omega, 
-            activity: omegaActivity,
-            confidence: Math.min(0.99, Math.max(0.5, prev.omega.confidence + (Math.random() - 0.5) * 0.08))
-          },
-          fusion: { coherence, arbitration }
-        };
-        
-        onStateChange?.(newState);
-        return newState;
-      });
-    }, 2500);
-
-    return () => clearInterval(interval);
-  }, [onStateChange]);
-
-  const processWithDualCore = useCallback(async (query: string): Promise<ReasoningResult> => {
-    setIsProcessing(true);
-    const startTime = Date.now();
-    
-    try {
-      const { data, error } = await supabase.functions.invoke('chat', {
-        body: {
-          messages: [{ role: 'user', content: query }],
-          sessionId,
-          mode: 'dual-hemisphere',
-          governanceMode,
-          satelliteId,
-          hemisphereConfig: {
-            alphaWeight: state.fusion.arbitration === 'alpha-dominant' ? 0.7 : 0.5,
-            omegaWeight: state.fusion.arbitration === 'omega-dominant' ? 0.7 : 0.5
-          }
-        }
-      });
-
-      setLastReasoningTime(Date.now() - startTime);
-
-      if (error) throw error;
-
-      const result: ReasoningResult = {
-        response: data.response || '',
-        confidence: data.confidence || 0.8,
-        hemisphere: data.dominant_hemisphere || 'fused',
-        reasoning_trace: data.reasoning_trace || [],
-        governance_validated: data.governance_validated ?? true
-      };
-
-      onReasoningComplete?.(result);
-      return result;
-    } catch (err) {
-      console.error('[DualHemisphereCore] Processing error:', err);
-      throw err;
-    } finally {
-      setIsProcessing(false);
+}, ref) => {
+  const contextKernel = useOptionalKernel();
+  const kernel = kernelProp ?? contextKernel ?? undefined;
+  const [state, setState] = useState<HemisphereState>(IDLE_HEMISPHERE_STATE);
+  const isProcessing = state.telemetry.in_flight > 0;
+  const { processStream, governance: lastVerdict } = useDualHemisphere(satelliteId, sessionId, { kernel });
+  const governance = governanceProp ?? lastVerdict;
+
+  useEffect(() => getHemisphereTelemetry(satelliteId).subscribe(next => {
+    setState(next);
+    onStateChange?.(next);
+  }), [satelliteId, onStateChange]);
+
+  useImperativeHandle(ref, () => ({
+    async process(query, { signal } = {}) {
+      const stream = processStream(query, governanceMode, { signal });
+      let step = await stream.next();
+      while (!step.done) {
+        onStreamEvent?.(step.value);
+        if (step.value.type === 'final') onReasoningComplete?.(step.value.result);
+        step = await stream.next();
+      }
+      return step.value;
     }
-  }, [sessionId, governanceMode, satelliteId, state.fusion.arbitration, onReasoningComplete]);
+  }), [processStream, governanceMode, onStreamEvent, onReasoningComplete]);
+
+  // The lock reflects the kernel and the last verdict, not a constant.
+  const lock: { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' } =
+    governance?.status === 'denied' ? { label: 'DENIED', variant: 'destructive' }
+    : !kernel ? { label: governanceMode === 'strict' ? 'NO KERNEL' : 'UNGUARDED', variant: 'outline' }
+    : kernel.status === 'booting' ? { label: 'BOOTING', variant: 'secondary' }
+    : kernel.status === 'error' ? { label: 'KERNEL ERROR', variant: 'destructive' }
+    : governance?.status === 'attested' ? { label: 'DVAP ATTESTED', variant: 'default' }
+    : { label: 'ACTIVE', variant: 'destructive' };
 
   if (compact) {
     return (
@@ -160,7 +154,7 @@ export const DualHemisphereCore: React.FC<DualHemisphereCoreProps> = ({
           </div>
         </div>
         <Badge variant="outline" className="text-xs">
-          {state.fusion.coherence.toFixed(0)}%
+          {state.telemetry.status === 'idle' ? 'idle' : `${state.fusion.coherence.toFixed(0)}%`}
         </Badge>
       </div>
     );
@@ -244,12 +238,17 @@ export const DualHemisphereCore: React.FC<DualHemisphereCoreProps> = ({
               <Activity className="h-4 w-4 text-emerald-400" />
               <span className="text-sm font-medium">Fusion Coherence</span>
             </div>
-            <Badge 
-              variant={state.fusion.arbitration === 'balanced' ? 'default' : 'outline'}
-              className="text-xs"
-            >
-              {state.fusion.arbitration}
-            </Badge>
+            <div className="flex gap-2">
+              <Badge variant="outline" className="text-xs capitalize">
+                {state.telemetry.status}
+              </Badge>
+              <Badge 
+                variant={state.fusion.arbitration === 'balanced' ? 'default' : 'outline'}
+                className="text-xs"
+              >
+                {state.fusion.arbitration}
+              </Badge>
+            </div>
           </div>
           <div className="mt-2 flex items-center gap-3">
             <Progress value={state.fusion.coherence} className="flex-1 h-3" />
@@ -257,9 +256,12 @@ export const DualHemisphereCore: React.FC<DualHemisphereCoreProps> = ({
               {state.fusion.coherence.toFixed(1)}%
             </span>
           </div>
-          {lastReasoningTime && (
-            <div className="mt-2 text-xs text-muted-foreground text-right">
-              Last reasoning: {lastReasoningTime}ms
+          {state.telemetry.samples > 0 && (
+            <div className="mt-2 flex justify-between text-xs text-muted-foreground">
+              <span>
+                {state.telemetry.samples} req · avg {state.telemetry.avg_latency_ms?.toFixed(0)}ms
+                {state.telemetry.avg_tokens !== null && ` · ${state.telemetry.avg_tokens.toFixed(0)} tok`}
+              </span>
             </div>
           )}
         </motion.div>
@@ -269,141 +271,238 @@ export const DualHemisphereCore: React.FC<DualHemisphereCoreProps> = ({
             <Shield className="h-4 w-4 text-destructive" />
             Governance Lock
           </span>
-          <Badge variant="destructive" className="text-xs">
-            ACTIVE
-          </Badge>
+          <div className="flex gap-2">
+            <Badge variant="outline" className="text-xs font-mono">
+              {GOVERNANCE_RISK_TIERS[governanceMode]}
+            </Badge>
+            <Badge variant={lock.variant} className="text-xs" title={governance?.reason ?? governance?.uva_hash}>
+              {lock.label}
+            </Badge>
+          </div>
         </div>
       </CardContent>
     </Card>
   );
-};
+});
+
+DualHemisphereCore.displayName = 'DualHemisphereCore';
+
+export interface DualHemisphereOptions {
+  // Typically useEdgeMemory().recall: every path then receives the memories most relevant to the query.
+  recall?: (query: string, opts?: RecallOptions) => Promise<RecallHit<RecallableMemory>[]>;
+  recallTopK?: number;
+  // Offline answers when every remote path is down; defaults to the rule engine over the knowledge and recalled memories.
+  localReasoner?: LocalReasoner;
+  knowledge?: Record<string, KnowledgeEntry>;   // typically useEdgeMemory().knowledge
+  memoryDigest?: MemoryDigest | null;           // typically useEdgeMemory().memoryDigest
+  conversation?: Partial<ConversationPolicy>;   // history token budget and summarisation; see conversationManager
+  kernel?: ReasoningKernel;                     // defaults to the enclosing KernelProvider; required for strict mode (see reasoningGovernance)
+}
+
+const defaultLocalReasoner = new RuleBasedReasoner();
 
-export const useDualHemisphere = (satelliteId: string, sessionId?: string) => {
+export const useDualHemisphere = (satelliteId: string, sessionId?: string, options: DualHemisphereOptions = {}) => {
   const [state, setState] = useState<HemisphereState | null>(null);
   const [lastResult, setLastResult] = useState<ReasoningResult | null>(null);
   const [isSovereign, setIsSovereign] = useState(false);
   const [localMemory, setLocalMemory] = useState<{ role: string; content: string }[]>([]);
-
-  const checkFederationHealth = useCallback(async (): Promise<boolean> => {
+  const [governance, setGovernance] = useState<GovernanceVerdict | null>(null);
+  const [fallbackSessionId] = useState(() => crypto.randomUUID());
+  const contextKernel = useOptionalKernel();
+  const optionsRef = useRef(options);
+  optionsRef.current = { ...options, kernel: options.kernel ?? contextKernel ?? undefined };
+
+  // Without a sessionId the conversation lasts as long as the component; pass one to keep it across reloads.
+  const sid = sessionId || fallbackSessionId;
+  const conversation = getConversation(satelliteId, sid);
+
+  useEffect(() => getHemisphereTelemetry(satelliteId).subscribe(setState), [satelliteId]);
+
+  useEffect(() => conversation.subscribe((turns: ConversationTurn[]) => {
+    setLocalMemory(turns.map(({ role, content }) => ({ role, content })));
+  }), [conversation]);
+
+  // Reachability is the shared heartbeat's last beat; only before its first beat does a request wait for one
+  // (shared with any beat already in flight, and bounded by FEDERATION_TIMEOUT_MS). Aborting stops the wait.
+  const checkFederationHealth = useCallback(async (signal?: AbortSignal): Promise<boolean> => {
+    const heartbeat = getHeartbeatService(satelliteId);
+    const snapshot = heartbeat.getSnapshot();
+    if (snapshot.availabilityPct !== null) return snapshot.connected;
+    if (!signal) return heartbeat.beat();
+    let onAbort = () => {};
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(abortError(signal));
+      if (signal.aborted) onAbort();
+      else signal.addEventListener('abort', onAbort, { once: true });
+    });
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000);
-      const { error } = await supabase.functions.invoke('neural-link-ipc', {
-        body: { action: 'ping', satelliteId }
-      });
-      clearTimeout(timeoutId);
-      return !error;
-    } catch {
-      return false;
+      return await Promise.race([heartbeat.beat(), aborted]);
+    } finally {
+      signal.removeEventListener('abort', onAbort);
     }
   }, [satelliteId]);
 
-  const processSovereign = useCallback(async (
-    query: string, 
-    governanceMode: 'standard' | 'strict' | 'autonomous'
-  ): Promise<ReasoningResult> => {
-    console.log(`[useDualHemisphere] SOVEREIGN MODE: ${satelliteId}`);
-    
-    const { data, error } = await supabase.functions.invoke('sovereign-fallback', {
-      body: {
-        message: query,
-        sessionId: sessionId || crypto.randomUUID(),
-        satelliteId,
-        governanceMode,
-        includeGRLS: true,
-        localMemory: localMemory.slice(-10)
-      }
-    });
-
-    if (error) throw error;
-
-    setLocalMemory(prev => [
-      ...prev.slice(-9),
-      { role: 'user', content: query },
-      { role: 'assistant', content: data.response }
-    ]);
-
-    return {
-      response: data.response || '',
-      confidence: data.confidence || 0.75,
-      hemisphere: 'fused',
-      reasoning_trace: data.reasoning_trace || ['SOVEREIGN_MODE'],
-      governance_validated: data.governance_validated ?? true
+  /**
+   * Streams one query: partial text and trace steps as they arrive, then the final result. If the federated stream
+   * fails (before or midway), a `fallback` event tells consumers to discard its partial text and the sovereign
+   * stream follows; if that fails too, or the device is offline, the local reasoner answers in-process. Aborting
+   * `signal` cancels the request and rejects with the abort reason; a governance refusal rejects with
+   * GovernanceBlockedError. Neither tries a fallback, and strict mode never answers locally.
+   *
+   * With a kernel, remote paths do not stream: the kernel records the complete response before returning it, so a
+   * governed request yields no delta or trace events, only its final result. That is the price of every remote
+   * answer being GOV/DVAP-checked and in the ledger. The signal still reaches the kernel call and cancels it.
+   * A kernel that is not ready refuses the request (GovernanceBlockedError) instead of falling back.
+   */
+  const processStream = useCallback(async function* (
+    query: string,
+    governanceMode: 'standard' | 'strict' | 'autonomous' = 'standard',
+    { signal }: { signal?: AbortSignal } = {}
+  ): AsyncGenerator<ReasoningStreamEvent, ReasoningResult> {
+    const online = typeof navigator === 'undefined' || navigator.onLine !== false;
+    const {
+      recall,
+      recallTopK = 5,
+      knowledge = {},
+      memoryDigest = null,
+      localReasoner = defaultLocalReasoner,
+      kernel
+    } = optionsRef.current;
+    const policy = { ...DEFAULT_CONVERSATION_POLICY, ...optionsRef.current.conversation };
+    let result: ReasoningResult | null = null;
+
+    const fallback = (err: unknown): ReasoningStreamEvent => ({ type: 'fallback', reason: err instanceof Error ? err.message : String(err) });
+    const stop = (err: unknown) => {
+      if (err instanceof GovernanceBlockedError) setGovernance(err.verdict);
+      return signal?.aborted || err instanceof GovernanceBlockedError;
     };
-  }, [satelliteId, sessionId, localMemory]);
 
-  const process = useCallback(async (
-    query: string, 
-    governanceMode: 'standard' | 'strict' | 'autonomous' = 'standard'
-  ): Promise<ReasoningResult> => {
-    const federationHealthy = await checkFederationHealth();
-    
-    if (!federationHealthy) {
-      console.log(`[useDualHemisphere] Federation offline, using sovereign fallback`);
-      setIsSovereign(true);
-      const result = await processSovereign(query, governanceMode);
-      setLastResult(result);
-      return result;
+    if (kernel && kernel.status !== 'ready') {
+      // Booting or failed: no path may answer, the local one included, until the kernel can govern.
+      const blocked = new GovernanceBlockedError({ status: 'denied', risk_tier: GOVERNANCE_RISK_TIERS[governanceMode], gov: null, dvap: null, reason: 'KERNEL_NOT_READY' });
+      setGovernance(blocked.verdict);
+      throw blocked;
     }
 
-    setIsSovereign(false);
-    
-    try {
-      const { data, error } = await supabase.functions.invoke('chat', {
-        body: {
-          messages: [{ role: 'user', content: query }],
-          sessionId: sessionId || crypto.randomUUID(),
+    const relevant = recall
+      ? await recall(query, { topK: recallTopK }).catch(e => {
+          console.warn('[useDualHemisphere] Recall failed, sending the conversation only:', e);
+          return [];
+        })
+      : [];
+    // Same history, knowledge and memories for every path.
+    const built = await conversation.build(query, { knowledge, memories: relevant, digest: memoryDigest }, policy);
+    if (signal?.aborted) throw abortError(signal);
+
+    if (online && await checkFederationHealth(signal)) {
+      setIsSovereign(false);
+      try {
+        const { data, verdict } = yield* runReasoningStage(kernel, satelliteId, 'federated', {
+          messages: built.messages,
+          sessionId: sid,
           mode: 'dual-hemisphere',
           governanceMode,
           satelliteId
-        }
-      });
-
-      if (error) {
-        console.log(`[useDualHemisphere] Federation error, falling back to sovereign`);
-        setIsSovereign(true);
-        const sovereignResult = await processSovereign(query, governanceMode);
-        setLastResult(sovereignResult);
-        return sovereignResult;
+        }, governanceMode, signal);
+        result = toReasoningResult(data, 'federated', verdict);
+      } catch (err) {
+        if (stop(err)) throw err;
+        console.error('[useDualHemisphere] Error, trying sovereign:', err);
+        yield fallback(err);
       }
+    } else {
+      console.log(`[useDualHemisphere] Federation offline, using sovereign fallback`);
+    }
+    if (signal?.aborted) throw abortError(signal);
 
-      const result: ReasoningResult = {
-        response: data.response || '',
-        confidence: data.confidence || 0.8,
-        hemisphere: data.dominant_hemisphere || 'fused',
-        reasoning_trace: data.reasoning_trace || [],
-        governance_validated: data.governance_validated ?? true
-      };
-
-      setLocalMemory(prev => [
-        ...prev.slice(-9),
-        { role: 'user', content: query },
-        { role: 'assistant', content: result.response }
-      ]);
-
-      setLastResult(result);
-      return result;
-    } catch (err) {
-      console.error('[useDualHemisphere] Error, trying sovereign:', err);
+    if (!result) {
+      console.log(`[useDualHemisphere] SOVEREIGN MODE: ${satelliteId}`);
       setIsSovereign(true);
-      const sovereignResult = await processSovereign(query, governanceMode);
-      setLastResult(sovereignResult);
-      return sovereignResult;
+
+      if (online) {
+        try {
+          const { data, verdict } = yield* runReasoningStage(kernel, satelliteId, 'sovereign', {
+            message: query,
+            messages: built.messages,
+            sessionId: sid,
+            satelliteId,
+            governanceMode,
+            includeGRLS: true,
+            localMemory: built.history.map(({ role, content }) => ({ role, content })),
+            conversationSummary: built.summary,
+            relevantMemories: relevant.map(({ memory, score }) => ({
+              content: memory.content,
+              memoryType: memory.memoryType,
+              topicTags: memory.topicTags ?? [],
+              score
+            }))
+          }, governanceMode, signal);
+          result = toReasoningResult(data, 'sovereign', verdict);
+        } catch (err) {
+          if (stop(err)) throw err;
+          console.warn('[useDualHemisphere] Sovereign fallback unreachable, reasoning locally:', err);
+          yield fallback(err);
+        }
+      }
+
+      if (!result && governanceMode === 'strict') {
+        // A local answer cannot be attested.
+        const blocked = new GovernanceBlockedError({ status: 'denied', risk_tier: GOVERNANCE_RISK_TIERS.strict, gov: null, dvap: null, reason: 'DVAP_UNREACHABLE' });
+        setGovernance(blocked.verdict);
+        throw blocked;
+      }
+
+      if (!result) {
+        const local = await reasonLocally(localReasoner, query, {
+          satelliteId,
+          governanceMode,
+          memories: relevant,
+          knowledge,
+          recentTurns: built.history,
+          digest: memoryDigest
+        }, signal);
+        result = {
+          ...local,
+          governance_validated: false,
+          governance: { status: 'unguarded', risk_tier: GOVERNANCE_RISK_TIERS[governanceMode], gov: null, dvap: null, reason: `LOCAL_REASONER:${localReasoner.id}` }
+        };
+        for (const step of result.reasoning_trace) yield { type: 'trace', step, source: 'local' };
+        yield { type: 'delta', text: result.response, source: 'local' };
+      }
     }
-  }, [satelliteId, sessionId, checkFederationHealth, processSovereign]);
+
+    await conversation.record(query, result.response, policy);
+    setGovernance(result.governance ?? null);
+    setLastResult(result);
+    yield { type: 'final', result };
+    return result;
+  }, [satelliteId, sid, conversation, checkFederationHealth]);
+
+  const process = useCallback(async (
+    query: string, 
+    governanceMode: 'standard' | 'strict' | 'autonomous' = 'standard',
+    opts: { signal?: AbortSignal } = {}
+  ): Promise<ReasoningResult> => {
+    const stream = processStream(query, governanceMode, opts);
+    let step = await stream.next();
+    while (!step.done) step = await stream.next();
+    return step.value;
+  }, [processStream]);
 
   const forceSovereign = useCallback((enabled: boolean) => {
     setIsSovereign(enabled);
   }, []);
 
   const clearLocalMemory = useCallback(() => {
-    setLocalMemory([]);
-  }, []);
+    conversation.clear();
+  }, [conversation]);
 
   return { 
     state, 
     lastResult, 
+    governance,
     process, 
+    processStream,
     setState, 
     isSovereign,
     forceSovereign,
@@ -0,0 +1,134 @@
+/**
+ * KERNEL PROVIDER
+ * Boots a FederatedCapabilityKernel for the React tree and routes satellite actions through it,
+ * so every federated call and assistance request from the UI passes GOV/DVAP and lands in the ledger.
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { getHeartbeatService } from '@/federation/heartbeat';
+import type {
+  CapabilityManifest,
+  FederatedCapabilityKernel,
+  PersistedKernelState
+} from './federation/FederatedCapabilityKernel';
+
+export type KernelStatus = 'booting' | 'ready' | 'error';
+
+type GovernedFederationCall = FederatedCapabilityKernel['governedFederationCall'];
+type RequestAssistance = FederatedCapabilityKernel['requestAssistance'];
+
+export interface KernelContextValue {
+  kernel: FederatedCapabilityKernel | null; // null until boot completes
+  status: KernelStatus;
+  bootError: string | null;
+  manifest: CapabilityManifest | null;
+  bootCounter: number | null;
+  lastManifestHash: string | null;
+  lastBootUtc: string | null;
+  safeMode: PersistedKernelState['safe_mode'] | null;
+  loading: boolean;                         // any governed call in flight
+  error: string | null;                     // last governed call failure
+  governedFederationCall: GovernedFederationCall;
+  requestAssistance: RequestAssistance;
+  refresh: () => void;                      // re-read kernel state (e.g. after an update package)
+}
+
+export interface KernelProviderProps {
+  kernel: FederatedCapabilityKernel;
+  manifest: CapabilityManifest;             // default manifest for first boot / safe mode
+  satelliteId?: string;                     // heartbeat to report the boot counter on; defaults to manifest.agent_id
+  children: React.ReactNode;
+}
+
+const KernelContext = createContext<KernelContextValue | null>(null);
+
+export const KernelProvider: React.FC<KernelProviderProps> = ({ kernel, manifest, satelliteId, children }) => {
+  const [status, setStatus] = useState<KernelStatus>('booting');
+  const [bootError, setBootError] = useState<string | null>(null);
+  const [snapshot, setSnapshot] = useState<Readonly<PersistedKernelState> | null>(null);
+  const [pending, setPending] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('booting');
+    setBootError(null);
+
+    kernel.boot(manifest)
+      .then(() => {
+        if (cancelled) return;
+        setSnapshot(kernel.getState());
+        setStatus('ready');
+      })
+      .catch(e => {
+        console.error('[KernelProvider] Boot error:', e);
+        if (cancelled) return;
+        setBootError(e instanceof Error ? e.message : 'KERNEL_BOOT_FAILED');
+        setStatus('error');
+      });
+
+    return () => { cancelled = true; };
+  }, [kernel, manifest]);
+
+  useEffect(() => {
+    if (snapshot) getHeartbeatService(satelliteId ?? snapshot.manifest.agent_id).report({ kernel_boot_counter: snapshot.monotonic_counter });
+  }, [snapshot, satelliteId]);
+
+  const refresh = useCallback(() => {
+    if (status === 'ready') setSnapshot(kernel.getState());
+  }, [kernel, status]);
+
+  // Tracks loading/error for any kernel call; kernel results report failure as { ok: false, error }.
+  const track = useCallback(async <R extends { ok: boolean; error?: string }>(run: () => Promise<R>): Promise<R> => {
+    setPending(n => n + 1);
+    try {
+      const res = await run();
+      setError(res.ok ? null : res.error ?? 'UNKNOWN_ERROR');
+      return res;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'UNKNOWN_ERROR');
+      throw e;
+    } finally {
+      setPending(n => n - 1);
+    }
+  }, []);
+
+  const governedFederationCall = useCallback<GovernedFederationCall>(async <T,>(args: Parameters<GovernedFederationCall>[0]) => {
+    if (status !== 'ready') return { ok: false, error: 'KERNEL_NOT_READY' };
+    return track(() => kernel.governedFederationCall<T>(args));
+  }, [kernel, status, track]);
+
+  const requestAssistance = useCallback<RequestAssistance>(async (args) => {
+    if (status !== 'ready') return { ok: false, error: 'KERNEL_NOT_READY' };
+    return track(() => kernel.requestAssistance(args));
+  }, [kernel, status, track]);
+
+  const value = useMemo<KernelContextValue>(() => ({
+    kernel: status === 'ready' ? kernel : null,
+    status,
+    bootError,
+    manifest: snapshot?.manifest ?? null,
+    bootCounter: snapshot?.monotonic_counter ?? null,
+    lastManifestHash: snapshot?.last_manifest_hash ?? null,
+    lastBootUtc: snapshot?.last_boot_utc ?? null,
+    safeMode: snapshot?.safe_mode ?? null,
+    loading: pending > 0,
+    error,
+    governedFederationCall,
+    requestAssistance,
+    refresh
+  }), [kernel, status, bootError, snapshot, pending, error, governedFederationCall, requestAssistance, refresh]);
+
+  return <KernelContext.Provider value={value}>{children}</KernelContext.Provider>;
+};
+
+/** The enclosing KernelProvider's value, or null outside one; for hooks that govern their calls whenever a kernel is present. */
+export const useOptionalKernel = (): KernelContextValue | null => useContext(KernelContext);
+
+export const useKernel = (): KernelContextValue => {
+  const ctx = useOptionalKernel();
+  if (!ctx) throw new Error('useKernel must be used within a KernelProvider');
+  return ctx;
+};
+
+export default KernelProvider;
@@ -0,0 +1,344 @@
+/**
+ * Offline Sync Queue - durable outbound writes for sovereign mode
+ *
+ * Every memory, knowledge and session mutation is persisted with an idempotency key before it is sent,
+ * then replayed strictly in order against edge-agent-memory. Transient failures back off and hold the
+ * queue (later writes must not overtake earlier ones); permanent failures are dead-lettered.
+ *
+ * Each queue belongs to one user: it is stored under `<prefix>.<userId>.<satelliteId>`, encrypted with that user's
+ * edge cache key, refuses ops carrying another userId and holds while someone else is signed in. Sign-out discards
+ * the queues in memory and wipeEdgeCaches scrubs them from storage.
+ *
+ * Tabs share the persisted queue: every mutation re-reads it under a Web Lock on its key, and outcomes are applied
+ * by op id, so one tab never overwrites another's writes. Two tabs may send the same op; its idempotency key makes
+ * the second send a no-op.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { getHeartbeatService } from '@/federation/heartbeat';
+import type { StorageAdapter } from './federation/FederatedCapabilityKernel';
+import { LocalStorageAdapter } from './federation/storage/LocalStorageAdapter';
+import { edgeCacheCipher, SYNC_QUEUE_PREFIX } from './edgeMemoryCache';
+
+export type SyncOperationKind = 'store_memory' | 'evolve_knowledge' | 'sync_session';
+
+export interface SyncOperation {
+  id: string;                      // idempotency key; sent as idempotencyKey so replays are applied once
+  kind: SyncOperationKind;
+  body: Record<string, unknown>;   // edge-agent-memory request body
+  enqueued_utc: string;
+  attempts: number;
+  next_attempt_at: number;         // epoch ms; 0 = as soon as possible
+  last_error?: string;
+}
+
+export interface DeadLetter extends SyncOperation {
+  dead_utc: string;
+  reason: string;
+}
+
+export type SyncTransportResult =
+  | { ok: true; data?: unknown }
+  | { ok: false; error: string; permanent: boolean };
+
+export type SyncTransport = (op: SyncOperation) => Promise<SyncTransportResult>;
+
+export type SyncQueueEvent =
+  | { type: 'applied'; op: SyncOperation; data?: unknown }
+  | { type: 'retrying'; op: SyncOperation; error: string }
+  | { type: 'dead_lettered'; op: DeadLetter }
+  | { type: 'depth'; depth: number };
+
+export interface SyncQueuePolicy {
+  max_attempts: number;            // transient failures before an operation is dead-lettered
+  base_delay_ms: number;
+  max_delay_ms: number;
+  jitter_ratio: number;            // 0..1
+  max_dead_letters: number;        // oldest are dropped beyond this
+}
+
+export const DEFAULT_SYNC_QUEUE_POLICY: SyncQueuePolicy = {
+  max_attempts: 8,
+  base_delay_ms: 1000,
+  max_delay_ms: 5 * 60 * 1000,
+  jitter_ratio: 0.5,
+  max_dead_letters: 100
+};
+
+interface QueueState {
+  pending: SyncOperation[];
+  dead: DeadLetter[];
+}
+
+export interface SyncQueueScope {
+  satelliteId: string;
+  userId: string;                                // owner; ops for anyone else are refused
+  signedInUser?: () => Promise<string | null>;   // replay holds while this is not the owner
+}
+
+const opUser = (op: Pick<SyncOperation, 'body'>) => op.body.userId;
+
+export class OfflineSyncQueue {
+  private readonly storageKey: string;
+  private tail: Promise<unknown> = Promise.resolve(); // serializes queue mutations
+  private flushing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private readonly listeners = new Set<(e: SyncQueueEvent) => void>();
+  private readonly onOnline = () => void this.retryNow();
+  readonly userId: string;
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly scope: SyncQueueScope,
+    private readonly transport: SyncTransport,
+    private readonly policy: SyncQueuePolicy = DEFAULT_SYNC_QUEUE_POLICY,
+    private readonly now: () => number = () => Date.now()
+  ) {
+    this.userId = scope.userId;
+    this.storageKey = `${SYNC_QUEUE_PREFIX}.${scope.userId}.${scope.satelliteId}`;
+    if (typeof window !== 'undefined') window.addEventListener('online', this.onOnline);
+  }
+
+  subscribe(listener: (e: SyncQueueEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Persists the mutation, then tries to send it (and anything queued before it). */
+  async enqueue(kind: SyncOperationKind, body: Record<string, unknown>): Promise<SyncOperation> {
+    if (this.closed) throw new Error('SYNC_QUEUE_CLOSED');
+    if (opUser({ body }) !== this.userId) throw new Error('SYNC_OP_FOREIGN_USER');
+    const op: SyncOperation = {
+      id: crypto.randomUUID(),
+      kind,
+      body,
+      enqueued_utc: new Date(this.now()).toISOString(),
+      attempts: 0,
+      next_attempt_at: 0
+    };
+    const depth = await this.exclusive(async (s) => {
+      s.pending.push(op);
+      return s.pending.length;
+    });
+    this.emit({ type: 'depth', depth });
+    void this.flush();
+    return op;
+  }
+
+  async depth(): Promise<number> {
+    return this.exclusive(async (s) => s.pending.length);
+  }
+
+  listDeadLetters(): Promise<DeadLetter[]> {
+    return this.exclusive(async (s) => s.dead.map((d) => ({ ...d })));
+  }
+
+  /** Moves a dead letter back to the end of the queue with a fresh attempt budget. */
+  async requeueDeadLetter(id: string): Promise<boolean> {
+    const found = await this.exclusive(async (s) => {
+      const i = s.dead.findIndex((d) => d.id === id);
+      if (i < 0) return false;
+      const [{ dead_utc: _d, reason: _r, ...op }] = s.dead.splice(i, 1);
+      s.pending.push({ ...op, attempts: 0, next_attempt_at: 0, last_error: undefined });
+      return true;
+    });
+    if (found) void this.flush();
+    return found;
+  }
+
+  /** Connectivity is back: skip the head's remaining backoff and replay now. */
+  async retryNow(): Promise<void> {
+    await this.exclusive(async (s) => {
+      if (s.pending[0]) s.pending[0] = { ...s.pending[0], next_attempt_at: 0 };
+    });
+    return this.flush();
+  }
+
+  /** Stops replaying and persisting; resolves once in-flight mutations have settled. Used on sign-out. */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.clearTimer();
+    if (typeof window !== 'undefined') window.removeEventListener('online', this.onOnline);
+    this.listeners.clear();
+    await this.tail;
+  }
+
+  /** Replays pending operations in order until the queue is empty or the head must wait. */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain()
+        .catch(e => console.error('[OfflineSyncQueue] Flush error:', e))
+        .finally(() => (this.flushing = null));
+    }
+    return this.flushing;
+  }
+
+  private async drain(): Promise<void> {
+    this.clearTimer();
+    for (;;) {
+      if (this.closed) return;
+      const head = await this.exclusive(async (s) => s.pending[0] ?? null);
+      if (!head) return;
+
+      // Left over from another account: never send it under this session.
+      if (opUser(head) !== this.userId) {
+        console.warn('[OfflineSyncQueue] Dropping operation queued for another user:', head.id);
+        const depth = await this.exclusive(async (s) => {
+          s.pending = s.pending.filter((p) => p.id !== head.id);
+          return s.pending.length;
+        });
+        this.emit({ type: 'depth', depth });
+        continue;
+      }
+
+      // Someone else is signed in (or nobody): hold until the owner's next session flushes it.
+      if (this.scope.signedInUser && (await this.scope.signedInUser()) !== this.userId) return;
+
+      const wait = head.next_attempt_at - this.now();
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.flush(), wait);
+        return;
+      }
+
+      let result: SyncTransportResult;
+      try {
+        result = await this.transport(head);
+      } catch (e) {
+        result = { ok: false, error: e instanceof Error ? e.message : String(e), permanent: false };
+      }
+
+      const failure = result.ok === false ? result : null;
+      const outcome = await this.exclusive(async (s) => {
+        const i = s.pending.findIndex((p) => p.id === head.id);
+        // Another tab settled it while this send was in flight.
+        if (i < 0) return { event: null, depth: s.pending.length };
+        if (!failure) {
+          s.pending.splice(i, 1);
+          return { event: { type: 'applied', op: head, data: (result as { data?: unknown }).data } as SyncQueueEvent, depth: s.pending.length };
+        }
+        const current = s.pending[i];
+        const attempts = current.attempts + 1;
+        if (failure.permanent || attempts >= this.policy.max_attempts) {
+          s.pending.splice(i, 1);
+          const dead: DeadLetter = {
+            ...current,
+            attempts,
+            last_error: failure.error,
+            dead_utc: new Date(this.now()).toISOString(),
+            reason: failure.permanent ? 'PERMANENT_FAILURE' : 'ATTEMPTS_EXHAUSTED'
+          };
+          s.dead.push(dead);
+          if (s.dead.length > this.policy.max_dead_letters) s.dead.splice(0, s.dead.length - this.policy.max_dead_letters);
+          return { event: { type: 'dead_lettered', op: dead } as SyncQueueEvent, depth: s.pending.length };
+        }
+        // The head keeps its place; the next pass sees its backoff and arms the timer.
+        s.pending[i] = { ...current, attempts, last_error: failure.error, next_attempt_at: this.now() + this.backoff(attempts) };
+        return { event: { type: 'retrying', op: s.pending[i], error: failure.error } as SyncQueueEvent, depth: s.pending.length };
+      });
+
+      if (outcome.event) this.emit(outcome.event);
+      this.emit({ type: 'depth', depth: outcome.depth });
+    }
+  }
+
+  /** Exponential backoff capped at max_delay_ms, with up to jitter_ratio of it randomized away. */
+  private backoff(attempt: number): number {
+    const exp = Math.min(this.policy.max_delay_ms, this.policy.base_delay_ms * 2 ** (attempt - 1));
+    const jitter = Math.min(1, Math.max(0, this.policy.jitter_ratio));
+    return Math.round(exp * (1 - jitter * Math.random()));
+  }
+
+  private emit(e: SyncQueueEvent): void {
+    this.listeners.forEach((l) => l(e));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Always works on the persisted copy: another tab may have changed it since this one last looked.
+  private exclusive<R>(fn: (s: QueueState) => Promise<R>): Promise<R> {
+    const run = this.tail.then(() => this.crossTab(async () => {
+      const s = await this.load();
+      const before = JSON.stringify(s);
+      const out = await fn(s);
+      if (!this.closed && JSON.stringify(s) !== before) await this.storage.set(this.storageKey, JSON.stringify(s));
+      return out;
+    }));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Runs `fn` under the Web Lock for this queue's key; without Web Locks, only this tab's mutations are serialized. */
+  private async crossTab<R>(fn: () => Promise<R>): Promise<R> {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    if (!locks) return fn();
+    let out!: R;
+    await locks.request(this.storageKey, async () => {
+      out = await fn();
+    });
+    return out;
+  }
+
+  private async load(): Promise<QueueState> {
+    let raw: string | null = null;
+    try {
+      raw = await this.storage.get(this.storageKey);
+    } catch (e) {
+      // Encrypted under a key that no longer exists (destroyed on sign-out, or another browser profile).
+      console.warn('[OfflineSyncQueue] Discarding unreadable queue:', e);
+    }
+    return raw ? JSON.parse(raw) : { pending: [], dead: [] };
+  }
+}
+
+/** ---------- edge-agent-memory transport ---------- **/
+
+// 4xx responses (other than timeout / rate limit) will not succeed on retry.
+const isPermanentStatus = (status?: number) => status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+export const edgeMemoryTransport: SyncTransport = async (op) => {
+  const { data, error } = await supabase.functions.invoke('edge-agent-memory', {
+    body: { ...op.body, idempotencyKey: op.id }
+  });
+  if (!error) return { ok: true, data };
+  const status = (error as { context?: { status?: number } }).context?.status;
+  return { ok: false, error: error.message ?? 'INVOKE_FAILED', permanent: isPermanentStatus(status) };
+};
+
+const queues = new Map<string, OfflineSyncQueue>();
+
+const signedInUser = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
+
+/** The shared queue for a satellite and user (one per tab); its depth is reported on the heartbeat. */
+export const getOfflineSyncQueue = (satelliteId: string, userId: string): OfflineSyncQueue => {
+  const key = `${userId}:${satelliteId}`;
+  let queue = queues.get(key);
+  if (!queue) {
+    queue = new OfflineSyncQueue(
+      new LocalStorageAdapter({ cipher: edgeCacheCipher(userId) }),
+      { satelliteId, userId, signedInUser },
+      edgeMemoryTransport
+    );
+    queue.subscribe(e => {
+      if (e.type === 'depth') getHeartbeatService(satelliteId).report({ queue_depth: e.depth });
+    });
+    queues.set(key, queue);
+    void queue.flush(); // replay writes left over from a previous session
+  }
+  return queue;
+};
+
+/** Closes and forgets every queue in this tab; sign-out calls this before wipeEdgeCaches scrubs their storage. */
+export async function discardOfflineSyncQueues(): Promise<void> {
+  const open = Array.from(queues.values());
+  queues.clear();
+  await Promise.all(open.map(q => q.close()));
+}
+
+export default getOfflineSyncQueue;
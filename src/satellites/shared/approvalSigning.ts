@@ -0,0 +1,86 @@
+/**
+ * Approval Signing - operator side of the kernel confirmation workflow
+ *
+ * Each approver holds an Ed25519 or ECDSA P-256 key pair and registers its public key with the kernel's
+ * ApproverKeyring. Decisions are signed with the private key, which never leaves the operator, and verified against
+ * the registered public key; the session access token only authenticates who is deciding. A recorded decision can
+ * therefore be re-verified later and attributed to exactly one approver.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { getCryptoProvider, type SignatureAlgorithm } from './federation/isoCrypto';
+import { computeKeyFingerprint, LocalKeyring, type KeyringEntry } from './federation/UpdateSigning';
+import type { ApproverVerifier } from './federation/ConfirmationWorkflow';
+
+export interface ApproverSigningKey {
+  private_key_pem: string;      // PKCS#8 PEM
+  algorithm: SignatureAlgorithm;
+}
+
+/** Signs a decision digest; signer_id is the key fingerprint the kernel resolves in its ApproverKeyring. */
+export async function signConfirmationDecision(
+  key: ApproverSigningKey,
+  decisionDigest: string
+): Promise<{ signer_id: string; signature: string }> {
+  const provider = getCryptoProvider();
+  let publicKeyPem: string;
+  try {
+    publicKeyPem = await provider.publicKeyFromPrivate(key.algorithm, key.private_key_pem);
+  } catch {
+    throw new Error(`Private key does not match algorithm ${key.algorithm}`);
+  }
+  return {
+    signer_id: await computeKeyFingerprint(publicKeyPem),
+    signature: await provider.sign(key.algorithm, key.private_key_pem, decisionDigest)
+  };
+}
+
+/** ---------- Registered approver keys ---------- **/
+
+/** Public keys of the approvers, each bound to the user it was registered for. */
+export class ApproverKeyring {
+  private readonly keys = new LocalKeyring();
+  private readonly owners = new Map<string, string>();
+
+  /** Registers an ACTIVE key for an approver; returns its fingerprint (the signer_id their decisions carry). */
+  async register(approverId: string, publicKeyPem: string, algorithm: SignatureAlgorithm): Promise<string> {
+    const fingerprint = await this.keys.addKey(publicKeyPem, algorithm);
+    const owner = this.owners.get(fingerprint);
+    if (owner && owner !== approverId) throw new Error(`Key ${fingerprint} is already registered to another approver`);
+    this.owners.set(fingerprint, approverId);
+    return fingerprint;
+  }
+
+  revoke(fingerprint: string, reason?: string): void {
+    this.keys.revoke(fingerprint, reason);
+  }
+
+  resolve(fingerprint: string): (KeyringEntry & { approver_id: string }) | null {
+    const entry = this.keys.resolve(fingerprint);
+    const approver_id = this.owners.get(fingerprint);
+    return entry && approver_id ? { ...entry, approver_id } : null;
+  }
+}
+
+/**
+ * Kernel-side verifier: resolves the approver from the access token, then checks the signature against a key
+ * registered to that approver.
+ */
+export const createSupabaseApproverVerifier = (keyring: ApproverKeyring): ApproverVerifier => ({
+  async verify({ credential, decision_digest, signer_id, signature }) {
+    const { data: { user }, error } = await supabase.auth.getUser(credential);
+    if (error || !user) return { ok: false, reason: 'UNAUTHENTICATED' };
+
+    const key = keyring.resolve(signer_id);
+    if (!key) return { ok: false, reason: 'KEY_UNKNOWN' };
+    if (key.approver_id !== user.id) return { ok: false, reason: 'KEY_NOT_OWNED' };
+    if (key.status !== 'ACTIVE') return { ok: false, reason: `KEY_${key.status}` };
+
+    const valid = await getCryptoProvider().verify(key.algorithm, key.public_key_pem, decision_digest, signature).catch(() => false);
+    if (!valid) return { ok: false, reason: 'BAD_SIGNATURE' };
+
+    return { ok: true, approver_id: user.id, approver_label: user.email ?? undefined };
+  }
+});
+
+export default signConfirmationDecision;
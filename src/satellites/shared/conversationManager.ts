@@ -0,0 +1,280 @@
+/**
+ * Conversation Manager - multi-turn history for the federated, sovereign and local reasoning paths
+ *
+ * Keeps the turns of one session, folds turns past `max_turns` into a rolling summary, and builds the outgoing
+ * `messages` for a query under a token budget: a system message with the summary, the user's most relevant edge
+ * knowledge and recalled memories, then as many recent turns as fit, then the query. Turns that do not fit are
+ * folded into the summary for that request. Conversations persist per satellite and session in the encrypted edge
+ * cache, so they survive reloads and are wiped with it on sign-out.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { readEdgeCache, writeEdgeCache } from './edgeMemoryCache';
+import type { KnowledgeEntry } from './knowledgeMerge';
+import type { MemoryDigest } from './memoryRetention';
+import { tokenize, type RecallableMemory, type RecallHit } from './memoryRecall';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  at: string;           // ISO
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationPolicy {
+  max_tokens: number;          // budget for all outgoing messages, query included
+  max_turns: number;           // turns stored verbatim; older ones are folded into the summary
+  summary_chars: number;       // rolling summary cap; the newest part is kept
+  knowledge_items: number;     // edge knowledge entries injected
+  memory_items: number;        // recalled memories injected
+}
+
+export const DEFAULT_CONVERSATION_POLICY: ConversationPolicy = {
+  max_tokens: 3000,
+  max_turns: 40,
+  summary_chars: 1200,
+  knowledge_items: 8,
+  memory_items: 5
+};
+
+export type TokenCounter = (text: string) => number;
+
+/** ~4 characters per token plus per-message overhead. Deterministic, so budgets behave the same offline. */
+export const estimateTokens: TokenCounter = text => Math.ceil(text.length / 4) + 4;
+
+export interface ConversationContext {
+  knowledge?: Record<string, KnowledgeEntry>;
+  memories?: RecallHit<RecallableMemory>[];
+  digest?: MemoryDigest | null;
+}
+
+export interface BuiltConversation {
+  messages: ChatMessage[];          // system context, history that fits, then the query
+  history: ConversationTurn[];      // turns included verbatim
+  summary: string | null;           // stored summary plus any turns left out of this request
+  tokens: number;
+  omitted: number;                  // stored turns not included verbatim
+}
+
+const SNIPPET_CHARS = 140;
+const LINE_CHARS = 200;
+
+/** ---------- Summaries ---------- **/
+
+function snippet(text: string, max = SNIPPET_CHARS): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const sentence = flat.match(/^.+?[.!?](\s|$)/)?.[0].trim() ?? flat;
+  return sentence.length > max ? `${sentence.slice(0, max - 1)}…` : sentence;
+}
+
+/** Folds turns (oldest first) into a summary, keeping its newest `maxChars`. */
+export function summarizeTurns(turns: ConversationTurn[], previous: string | null, maxChars: number): string | null {
+  if (!turns.length) return previous;
+  const folded = turns.map(t => `${t.role === 'user' ? 'User' : 'Assistant'}: ${snippet(t.content)}`).join(' / ');
+  const summary = previous ? `${previous} / ${folded}` : folded;
+  return summary.length > maxChars ? `…${summary.slice(summary.length - maxChars + 1)}` : summary;
+}
+
+/** ---------- Context ---------- **/
+
+const line = (text: string) => (text.length > LINE_CHARS ? `${text.slice(0, LINE_CHARS - 1)}…` : text);
+
+function knowledgeLines(query: string, knowledge: Record<string, KnowledgeEntry>, limit: number): string[] {
+  const terms = new Set(tokenize(query));
+  return Object.entries(knowledge)
+    .map(([key, entry]) => {
+      const keyTerms = tokenize(key.replace(/[_.-]+/g, ' '));
+      const relevance = keyTerms.length ? keyTerms.filter(t => terms.has(t)).length / keyTerms.length : 0;
+      return { key, entry, rank: relevance + entry.confidence / 10 };   // relevance first, confidence breaks ties
+    })
+    .sort((a, b) => b.rank - a.rank || a.key.localeCompare(b.key))
+    .slice(0, limit)
+    .map(({ key, entry }) => line(`- ${key}: ${typeof entry.value === 'string' ? entry.value : JSON.stringify(entry.value)}`));
+}
+
+function systemMessage(summary: string | null, knowledge: string[], memories: string[], digest: string | null): ChatMessage | null {
+  const parts = [
+    summary ? `Conversation so far: ${summary}` : '',
+    digest ? `Earlier sessions: ${digest}` : '',
+    knowledge.length ? `Known about the user:\n${knowledge.join('\n')}` : '',
+    memories.length ? `Relevant memories:\n${memories.join('\n')}` : ''
+  ].filter(Boolean);
+  return parts.length ? { role: 'system', content: parts.join('\n\n') } : null;
+}
+
+/** ---------- Manager ---------- **/
+
+export class ConversationManager {
+  private turns: ConversationTurn[] = [];
+  private summary: string | null = null;
+  private userId: string | null = null;
+  private loading: Promise<void> | null = null;
+  private loaded = false;   // userId is only known once a load has settled
+  private generation = 0;   // bumped by reset(); a load from an older generation is stale
+  private readonly listeners = new Set<(turns: ConversationTurn[]) => void>();
+
+  constructor(readonly satelliteId: string, readonly sessionId: string) {}
+
+  private get cacheId(): string {
+    return `${this.satelliteId}_conversation_${this.sessionId}`;
+  }
+
+  /**
+   * Restores the persisted conversation for the signed-in user (once; again after reset()). A load overtaken by
+   * reset() (the user switched while it was reading) discards what it read and waits for the current load instead;
+   * a failed load is retried on the next access, and nothing is persisted until one succeeds.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      const generation = this.generation;
+      this.loading = (async () => {
+        const { data: { user } } = await supabase.auth.getUser();
+        const userId = user?.id ?? null;
+        const cached = await readEdgeCache(this.cacheId, userId);
+        if (this.generation !== generation) return this.load();
+        this.userId = userId;
+        this.loaded = true;
+        this.turns = (cached?.turns as ConversationTurn[]) ?? [];
+        this.summary = (cached?.summary as string) ?? null;
+        this.publish();
+      })().catch(e => {
+        console.warn('[ConversationManager] Could not restore conversation:', e);
+        if (this.generation === generation) this.loading = null; // the next access retries
+      });
+    }
+    return this.loading;
+  }
+
+  subscribe(listener: (turns: ConversationTurn[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.turns);
+    this.load();
+    return () => this.listeners.delete(listener);
+  }
+
+  getTurns(): ConversationTurn[] {
+    return this.turns;
+  }
+
+  /** Outgoing messages for `query` within the policy's token budget. */
+  async build(
+    query: string,
+    context: ConversationContext = {},
+    policy: ConversationPolicy = DEFAULT_CONVERSATION_POLICY,
+    countTokens: TokenCounter = estimateTokens
+  ): Promise<BuiltConversation> {
+    await this.load();
+    const knowledge = knowledgeLines(query, context.knowledge ?? {}, policy.knowledge_items);
+    const memories = (context.memories ?? []).slice(0, policy.memory_items)
+      .map(({ memory }) => line(`- [${memory.memoryType}] ${memory.content}`));
+    const digest = context.digest?.summary ?? null;
+
+    // Reserve the query, the injected context and room for the summary, then fill with the newest turns.
+    const reserved = countTokens(query)
+      + countTokens(systemMessage(null, knowledge, memories, digest)?.content ?? '')
+      + Math.ceil(policy.summary_chars / 4);
+    let budget = policy.max_tokens - reserved;
+    let start = this.turns.length;
+    while (start > 0 && countTokens(this.turns[start - 1].content) <= budget) {
+      budget -= countTokens(this.turns[start - 1].content);
+      start -= 1;
+    }
+
+    const history = this.turns.slice(start);
+    const summary = summarizeTurns(this.turns.slice(0, start), this.summary, policy.summary_chars);
+    let system = systemMessage(summary, knowledge, memories, digest);
+    let tokens = countTokens(query) + history.reduce((sum, t) => sum + countTokens(t.content), 0);
+
+    // Over budget only when the context alone is too large: shed memories, then knowledge.
+    while (system && tokens + countTokens(system.content) > policy.max_tokens && (memories.length || knowledge.length)) {
+      if (memories.length) memories.pop();
+      else knowledge.pop();
+      system = systemMessage(summary, knowledge, memories, digest);
+    }
+    if (system) tokens += countTokens(system.content);
+
+    return {
+      messages: [
+        ...(system ? [system] : []),
+        ...history.map(({ role, content }) => ({ role, content })),
+        { role: 'user', content: query }
+      ],
+      history,
+      summary,
+      tokens,
+      omitted: start
+    };
+  }
+
+  /** Appends a completed exchange and persists the conversation. */
+  async record(query: string, response: string, policy: ConversationPolicy = DEFAULT_CONVERSATION_POLICY): Promise<void> {
+    await this.load();
+    const at = new Date().toISOString();
+    const turns: ConversationTurn[] = [...this.turns, { role: 'user', content: query, at }, { role: 'assistant', content: response, at }];
+    const overflow = Math.max(0, turns.length - policy.max_turns);
+    this.summary = summarizeTurns(turns.slice(0, overflow), this.summary, policy.summary_chars);
+    this.turns = turns.slice(overflow);
+    this.publish();
+    await this.persist();
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.turns = [];
+    this.summary = null;
+    this.publish();
+    await this.persist();
+  }
+
+  /** Called on auth changes: a conversation loaded (or still loading) for another user, or none, is dropped. */
+  switchUser(userId: string | null): void {
+    if (this.loading && (!this.loaded || this.userId !== userId)) this.reset();
+  }
+
+  /** Drops the in-memory conversation; the next access reloads it for whoever is signed in. */
+  reset(): void {
+    this.turns = [];
+    this.summary = null;
+    this.userId = null;
+    this.loaded = false;
+    this.loading = null;
+    this.generation += 1;
+    this.publish();
+  }
+
+  private persist(): Promise<void> {
+    // Until a load succeeds the owner is unknown; writing now could file this user's turns under the anonymous key.
+    if (!this.loaded) return Promise.resolve();
+    return writeEdgeCache(this.cacheId, this.userId, { turns: this.turns, summary: this.summary })
+      .catch(e => console.warn('[ConversationManager] Could not persist conversation:', e));
+  }
+
+  private publish(): void {
+    this.listeners.forEach(l => l(this.turns));
+  }
+}
+
+const conversations = new Map<string, ConversationManager>();
+let authSubscribed = false;
+
+/** The conversation for a satellite session, shared by every useDualHemisphere on it. */
+export function getConversation(satelliteId: string, sessionId: string): ConversationManager {
+  if (!authSubscribed) {
+    authSubscribed = true;
+    // Another account (or none) must never see this one's history; sign-out also wipes the persisted copy.
+    supabase.auth.onAuthStateChange((_event, session) => {
+      conversations.forEach(c => c.switchUser(session?.user?.id ?? null));
+    });
+  }
+  const key = `${satelliteId}:${sessionId}`;
+  let conversation = conversations.get(key);
+  if (!conversation) {
+    conversation = new ConversationManager(satelliteId, sessionId);
+    conversations.set(key, conversation);
+  }
+  return conversation;
+}
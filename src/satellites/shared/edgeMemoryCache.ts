@@ -0,0 +1,192 @@
+/**
+ * Edge Memory Cache - encrypted at-rest snapshot behind useEdgeMemory
+ *
+ * Snapshots are AES-256-GCM encrypted under a per-scope key: one per signed-in user, one for anonymous use.
+ * Keys are HKDF-derived from a fresh random secret, bound to the scope, and stored non-extractable in IndexedDB,
+ * so a copied localStorage value cannot be read outside this browser profile. The offline sync queue is encrypted
+ * under the same keys (edgeCacheCipher). Signing out wipes the snapshots and the queues and destroys the user's key;
+ * the next sign-in derives a new one.
+ */
+
+import { createAesGcmCipher, type ValueCipher } from './federation/storage/encryption';
+
+export const EDGE_CACHE_PREFIX = 'edge_memory_cache';
+export const SYNC_QUEUE_PREFIX = 'acip.edge.sync_queue';   // OfflineSyncQueue storage keys
+
+export type EdgeCacheSnapshot = Record<string, unknown>;
+
+interface CacheEnvelope {
+  v: 1;
+  scope: string;
+  data: string;   // enc:v1:... (see federation/storage/encryption)
+}
+
+const KEY_DB = 'acip-edge-cache-keys';
+const KEY_STORE = 'keys';
+const HKDF_SALT = 'acip.edge-memory-cache.v1';
+
+const scopeOf = (userId: string | null) => (userId ? `user:${userId}` : 'anon');
+const cacheKey = (satelliteId: string) => `${EDGE_CACHE_PREFIX}_${satelliteId}`;
+
+/** ---------- Key custody ---------- **/
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+let keyDb: Promise<IDBDatabase> | null = null;
+
+function openKeyDb(): Promise<IDBDatabase> {
+  if (!keyDb) {
+    const req = indexedDB.open(KEY_DB, 1);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(KEY_STORE)) req.result.createObjectStore(KEY_STORE);
+    };
+    keyDb = promisify(req);
+    keyDb.catch(() => (keyDb = null));
+  }
+  return keyDb;
+}
+
+async function keyStoreOp<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openKeyDb();
+  return promisify(op(db.transaction(KEY_STORE, mode).objectStore(KEY_STORE)));
+}
+
+async function deriveScopeKey(scope: string): Promise<CryptoKey> {
+  const enc = new TextEncoder();
+  const secret = await crypto.subtle.importKey('raw', crypto.getRandomValues(new Uint8Array(32)), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: enc.encode(HKDF_SALT), info: enc.encode(scope) },
+    secret,
+    { name: 'AES-GCM', length: 256 },
+    false, // non-extractable: usable from this profile's IndexedDB, never exportable as bytes
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Keys for the page's lifetime when IndexedDB is unavailable (private windows): the cache stays encrypted but
+// does not survive a reload. Falling back to plaintext is never an option.
+const volatileKeys = new Map<string, CryptoKey>();
+const pendingKeys = new Map<string, Promise<CryptoKey>>();
+
+function scopeKey(scope: string): Promise<CryptoKey> {
+  let pending = pendingKeys.get(scope);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const stored = await keyStoreOp<CryptoKey | undefined>('readonly', s => s.get(scope));
+        if (stored) return stored;
+        const key = await deriveScopeKey(scope);
+        await keyStoreOp('readwrite', s => s.put(key, scope));
+        return key;
+      } catch (e) {
+        console.warn('[EdgeMemoryCache] Key store unavailable, using a page-lifetime key:', e);
+        let key = volatileKeys.get(scope);
+        if (!key) volatileKeys.set(scope, (key = await deriveScopeKey(scope)));
+        return key;
+      }
+    })();
+    pendingKeys.set(scope, pending);
+    pending.catch(() => pendingKeys.delete(scope));
+  }
+  return pending;
+}
+
+async function cipherFor(userId: string | null): Promise<ValueCipher> {
+  return createAesGcmCipher(await scopeKey(scopeOf(userId)));
+}
+
+/** A cipher under `userId`'s scope key, for other edge stores that must be wiped with the cache (the sync queue). */
+export function edgeCacheCipher(userId: string | null): ValueCipher {
+  return {
+    encrypt: async plaintext => (await cipherFor(userId)).encrypt(plaintext),
+    decrypt: async stored => (await cipherFor(userId)).decrypt(stored)
+  };
+}
+
+/** ---------- Snapshot read / write ---------- **/
+
+type Decoded = { snapshot: EdgeCacheSnapshot | null; legacy: boolean };
+
+async function decode(satelliteId: string, userId: string | null): Promise<Decoded> {
+  const raw = localStorage.getItem(cacheKey(satelliteId));
+  if (!raw) return { snapshot: null, legacy: false };
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed?.v !== 1 || typeof parsed.data !== 'string') {
+      // Plaintext from before encryption: only its owner may adopt it.
+      const { knowledgeOwner = null, ...legacy } = parsed ?? {};
+      return { snapshot: knowledgeOwner === userId ? legacy : null, legacy: true };
+    }
+    const envelope = parsed as CacheEnvelope;
+    if (envelope.scope !== scopeOf(userId)) return { snapshot: null, legacy: false };
+    return { snapshot: JSON.parse(await (await cipherFor(userId)).decrypt(envelope.data)), legacy: false };
+  } catch (e) {
+    // Undecryptable (key destroyed or from another profile): nothing here is ours to read.
+    console.warn('[EdgeMemoryCache] Discarding unreadable cache:', e);
+    return { snapshot: null, legacy: false };
+  }
+}
+
+/**
+ * The snapshot for this satellite if it belongs to `userId` (null = anonymous) and decrypts under this profile's
+ * key. A plaintext cache from before encryption is re-encrypted for its owner, or scrubbed.
+ */
+export async function readEdgeCache(satelliteId: string, userId: string | null): Promise<EdgeCacheSnapshot | null> {
+  const { snapshot, legacy } = await decode(satelliteId, userId);
+  if (legacy) {
+    if (snapshot) await writeEdgeCache(satelliteId, userId, {});
+    else scrub(cacheKey(satelliteId));
+  }
+  return snapshot;
+}
+
+const writeChains = new Map<string, Promise<unknown>>();
+
+/** Shallow-merges `data` into the snapshot. Writes per satellite are serialized so concurrent updates do not lose fields. */
+export function writeEdgeCache(satelliteId: string, userId: string | null, data: EdgeCacheSnapshot): Promise<void> {
+  const key = cacheKey(satelliteId);
+  const run = (writeChains.get(key) ?? Promise.resolve()).then(async () => {
+    const { snapshot } = await decode(satelliteId, userId);
+    const plaintext = JSON.stringify({ ...snapshot, ...data, savedAt: new Date().toISOString() });
+    const envelope: CacheEnvelope = { v: 1, scope: scopeOf(userId), data: await (await cipherFor(userId)).encrypt(plaintext) };
+    localStorage.setItem(key, JSON.stringify(envelope));
+  });
+  writeChains.set(key, run.catch(() => undefined));
+  return run;
+}
+
+/** ---------- Wipe ---------- **/
+
+// Overwrite before removing so the old bytes are not the last value written under the key.
+function scrub(key: string): void {
+  const current = localStorage.getItem(key);
+  if (current !== null) localStorage.setItem(key, '0'.repeat(current.length));
+  localStorage.removeItem(key);
+}
+
+/**
+ * Wipes every satellite's snapshot and sync queue and destroys the user's key (the ciphertext is unrecoverable even
+ * if a copy survived). Called on sign-out, after the in-memory queues are discarded; with no userId only the stored
+ * data is removed.
+ */
+export async function wipeEdgeCaches(userId: string | null): Promise<void> {
+  await Promise.all(writeChains.values()); // an in-flight write must not land after the wipe
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(`${EDGE_CACHE_PREFIX}_`) || key.startsWith(`${SYNC_QUEUE_PREFIX}.`))
+    .forEach(scrub);
+
+  if (!userId) return;
+  const scope = scopeOf(userId);
+  pendingKeys.delete(scope);
+  volatileKeys.delete(scope);
+  try {
+    await keyStoreOp('readwrite', s => s.delete(scope));
+  } catch (e) {
+    console.warn('[EdgeMemoryCache] Could not delete cache key:', e);
+  }
+}
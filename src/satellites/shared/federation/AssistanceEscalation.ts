@@ -0,0 +1,195 @@
+/* AssistanceEscalation.ts
+   Ordered, bounded escalation across the manifest's assistance routes.
+   Each route is tried up to max_attempts per trace; HUMAN_ESCALATION blocks on a pluggable approval queue.
+*/
+
+import { isoNowUTC } from "./canonical";
+import { Clock, systemClock } from "./ResilientFederation";
+import type { AssistanceBroker, RiskTier } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export type AssistanceRoute = "FEDERATION" | "HUMAN_ESCALATION" | "PEER_AGENT";
+
+export interface AssistanceRequest {
+  trace_id: string;
+  agent_id: string;
+  query: string;
+  context?: Record<string, unknown>;
+  risk_tier: RiskTier;
+}
+
+export interface HumanAssistanceTicket extends AssistanceRequest {
+  ticket_id: string;
+  created_utc: string;
+}
+
+export type HumanDecision =
+  | { status: "ANSWERED"; response: string; responder?: string }
+  | { status: "REJECTED"; reason?: string; responder?: string };
+
+export interface HumanApprovalQueue {
+  submit(ticket: HumanAssistanceTicket): Promise<void>;
+  /** Resolves when a human answers or rejects; the escalator enforces the timeout. */
+  awaitDecision(ticket_id: string): Promise<HumanDecision>;
+  cancel?(ticket_id: string, reason: string): Promise<void>;
+}
+
+export interface AssistanceAttempt {
+  route: AssistanceRoute;
+  attempt: number;              // per-trace, per-route attempt number (1-based)
+  ok: boolean;
+  error?: string;
+  started_utc: string;
+  duration_ms: number;
+}
+
+export interface AssistanceResult {
+  ok: boolean;
+  response?: string;
+  route_used?: AssistanceRoute;
+  attempts: AssistanceAttempt[];
+  error?: string;
+}
+
+export interface EscalationPolicy {
+  routes: AssistanceRoute[];
+  max_attempts: number;
+  human_timeout_ms: number;
+}
+
+export const DEFAULT_HUMAN_TIMEOUT_MS = 5 * 60 * 1000;
+
+const MAX_TRACKED_TRACES = 500;
+
+/** ---------- In-memory approval queue ---------- **/
+
+/** Simple queue for single-process satellites and tests; operators call answer()/reject(). */
+export class InMemoryApprovalQueue implements HumanApprovalQueue {
+  private readonly pending = new Map<string, { ticket: HumanAssistanceTicket; resolve: (d: HumanDecision) => void; decided: Promise<HumanDecision> }>();
+
+  async submit(ticket: HumanAssistanceTicket): Promise<void> {
+    let resolve!: (d: HumanDecision) => void;
+    const decided = new Promise<HumanDecision>((r) => (resolve = r));
+    this.pending.set(ticket.ticket_id, { ticket, resolve, decided });
+  }
+
+  awaitDecision(ticket_id: string): Promise<HumanDecision> {
+    const p = this.pending.get(ticket_id);
+    return p ? p.decided : Promise.resolve({ status: "REJECTED", reason: "UNKNOWN_TICKET" });
+  }
+
+  async cancel(ticket_id: string, reason: string): Promise<void> {
+    this.decide(ticket_id, { status: "REJECTED", reason });
+  }
+
+  list(): HumanAssistanceTicket[] {
+    return Array.from(this.pending.values()).map((p) => p.ticket);
+  }
+
+  answer(ticket_id: string, response: string, responder?: string): boolean {
+    return this.decide(ticket_id, { status: "ANSWERED", response, responder });
+  }
+
+  reject(ticket_id: string, reason?: string, responder?: string): boolean {
+    return this.decide(ticket_id, { status: "REJECTED", reason, responder });
+  }
+
+  private decide(ticket_id: string, decision: HumanDecision): boolean {
+    const p = this.pending.get(ticket_id);
+    if (!p) return false;
+    this.pending.delete(ticket_id);
+    p.resolve(decision);
+    return true;
+  }
+}
+
+/** ---------- Escalator ---------- **/
+
+export class AssistanceEscalator {
+  // trace_id -> attempts used per route; insertion-ordered so the oldest trace is evicted first
+  private readonly counters = new Map<string, Partial<Record<AssistanceRoute, number>>>();
+
+  constructor(
+    private readonly handlers: Partial<Record<Exclude<AssistanceRoute, "HUMAN_ESCALATION">, AssistanceBroker>>,
+    private readonly approvalQueue?: HumanApprovalQueue,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /** Tries routes in manifest order; within a route, retries until it succeeds or the trace's budget is spent. */
+  async escalate(req: AssistanceRequest, policy: EscalationPolicy): Promise<AssistanceResult> {
+    const attempts: AssistanceAttempt[] = [];
+    const used = this.countersFor(req.trace_id);
+
+    for (const route of policy.routes) {
+      while ((used[route] ?? 0) < policy.max_attempts) {
+        used[route] = (used[route] ?? 0) + 1;
+        const started = this.clock.now();
+        const started_utc = isoNowUTC();
+
+        let res: { ok: boolean; response?: string; error?: string };
+        try {
+          res = await this.dispatch(route, req, used[route]!, policy);
+        } catch (e) {
+          res = { ok: false, error: (e as Error)?.message ?? "ASSISTANCE_ERROR" };
+        }
+
+        attempts.push({ route, attempt: used[route]!, ok: res.ok, error: res.error, started_utc, duration_ms: this.clock.now() - started });
+        if (res.ok) return { ok: true, response: res.response, route_used: route, attempts };
+        if (res.error === "ROUTE_UNAVAILABLE") break; // no point retrying a route with no handler
+      }
+    }
+
+    return { ok: false, attempts, error: attempts.length ? "ASSISTANCE_EXHAUSTED" : "ASSISTANCE_BUDGET_SPENT" };
+  }
+
+  /** Attempts already used by a trace, per route. */
+  getAttemptCounts(trace_id: string): Partial<Record<AssistanceRoute, number>> {
+    return { ...(this.counters.get(trace_id) ?? {}) };
+  }
+
+  private async dispatch(
+    route: AssistanceRoute,
+    req: AssistanceRequest,
+    attempt: number,
+    policy: EscalationPolicy
+  ): Promise<{ ok: boolean; response?: string; error?: string }> {
+    if (route === "HUMAN_ESCALATION") return this.escalateToHuman(req, attempt, policy.human_timeout_ms);
+
+    const handler = this.handlers[route];
+    if (!handler) return { ok: false, error: "ROUTE_UNAVAILABLE" };
+    const res = await handler.requestAssistance(req);
+    return { ok: Boolean(res.ok), response: res.response, error: res.ok ? undefined : res.error ?? "ASSISTANCE_FAILED" };
+  }
+
+  private async escalateToHuman(req: AssistanceRequest, attempt: number, timeoutMs: number): Promise<{ ok: boolean; response?: string; error?: string }> {
+    if (!this.approvalQueue) return { ok: false, error: "ROUTE_UNAVAILABLE" };
+
+    const ticket_id = `human_${req.trace_id}_${attempt}`;
+    await this.approvalQueue.submit({ ...req, ticket_id, created_utc: isoNowUTC() });
+
+    const cancel = new AbortController();
+    const timeout = this.clock.sleep(timeoutMs, cancel.signal).then(() => null);
+    try {
+      const decision = await Promise.race([this.approvalQueue.awaitDecision(ticket_id), timeout]);
+      if (!decision) {
+        await this.approvalQueue.cancel?.(ticket_id, "TIMEOUT");
+        return { ok: false, error: "HUMAN_TIMEOUT" };
+      }
+      if (decision.status === "REJECTED") return { ok: false, error: `HUMAN_REJECTED:${decision.reason ?? "UNSPECIFIED"}` };
+      return { ok: true, response: decision.response };
+    } finally {
+      cancel.abort();
+    }
+  }
+
+  private countersFor(trace_id: string): Partial<Record<AssistanceRoute, number>> {
+    let c = this.counters.get(trace_id);
+    if (!c) {
+      c = {};
+      this.counters.set(trace_id, c);
+      if (this.counters.size > MAX_TRACKED_TRACES) this.counters.delete(this.counters.keys().next().value as string);
+    }
+    return c;
+  }
+}
@@ -0,0 +1,204 @@
+/* ConfirmationWorkflow.ts
+   Human-in-the-loop confirmation for high-stakes actions.
+   The kernel issues a pending ticket bound to the exact request; an authenticated approver signs an
+   APPROVE/DENY decision with their registered key pair; the kernel consumes an approved ticket once. Stale tickets expire.
+*/
+
+import { canonicalStringify, omitUndefinedMembers, sha256Hex } from "./canonical";
+import type { RiskTier, StorageAdapter } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export type ConfirmationStatus = "PENDING" | "APPROVED" | "DENIED" | "EXPIRED" | "CONSUMED";
+export type ConfirmationDecisionKind = "APPROVE" | "DENY";
+
+export interface ConfirmationTicket {
+  ticket_id: string;
+  trace_id: string;
+  action_id: string;
+  operation: string;
+  risk_tier: RiskTier;
+  request_hash: string;                  // binds the ticket to action_id + operation + payload + risk_tier
+  payload: Record<string, unknown>;      // shown to the approver; covered by request_hash
+  requested_by: string;                  // the requester may never approve their own ticket
+  requested_utc: string;
+  expires_utc: string;
+  status: ConfirmationStatus;
+  decision?: {
+    kind: ConfirmationDecisionKind;
+    approver_id: string;
+    approver_label?: string;
+    decided_utc: string;
+    reason?: string;
+    decision_digest: string;
+    signer_id: string;                   // fingerprint of the approver key that produced `signature`
+    signature: string;
+  };
+}
+
+/** Body an approver signs; the digest of this (not the raw payload) is what the signature covers. */
+export interface ConfirmationDecisionBody {
+  ticket_id: string;
+  request_hash: string;
+  kind: ConfirmationDecisionKind;
+  decided_utc: string;
+  reason?: string;
+}
+
+export interface ApproverVerifier {
+  /**
+   * Authenticates the approver from their credential and checks `signature` over decision_digest against the
+   * public key `signer_id`, which must be registered to that approver.
+   */
+  verify(args: { credential: string; decision_digest: string; signer_id: string; signature: string }): Promise<
+    { ok: true; approver_id: string; approver_label?: string } | { ok: false; reason: string }
+  >;
+}
+
+export const DEFAULT_CONFIRMATION_TTL_MS = 15 * 60 * 1000;
+export const MAX_DECISION_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+const CONFIRMATION_SIGNING_DOMAIN = "ACIP_CONFIRMATION_DECISION_V1";
+
+export function computeConfirmationDecisionDigest(body: ConfirmationDecisionBody): Promise<string> {
+  // An absent reason is not part of the digest; the domain keeps these signatures apart from update packages.
+  return sha256Hex(canonicalStringify(omitUndefinedMembers({ domain: CONFIRMATION_SIGNING_DOMAIN, ...body })));
+}
+
+/** ---------- Workflow ---------- **/
+
+export class ConfirmationWorkflow {
+  private readonly storageKey: string;
+  private tickets: ConfirmationTicket[] | null = null;
+  private tail: Promise<unknown> = Promise.resolve(); // serializes ticket mutations
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    agentId: string,
+    private readonly now: () => number = () => Date.now()
+  ) {
+    this.storageKey = `acip.kernel.confirmations.${agentId}`;
+  }
+
+  issue(args: Omit<ConfirmationTicket, "ticket_id" | "requested_utc" | "expires_utc" | "status" | "decision">, ttlMs: number): Promise<ConfirmationTicket> {
+    if (!args.requested_by) throw new Error("Confirmation tickets need requested_by");
+    return this.exclusive(async (tickets) => {
+      const requested = this.now();
+      const idHash = await sha256Hex(`${args.request_hash}:${requested}:${tickets.length}`);
+      const ticket: ConfirmationTicket = {
+        ...args,
+        ticket_id: `confirm_${idHash.slice(0, 16)}`,
+        requested_utc: new Date(requested).toISOString(),
+        expires_utc: new Date(requested + ttlMs).toISOString(),
+        status: "PENDING"
+      };
+      tickets.push(ticket);
+      return { ...ticket };
+    });
+  }
+
+  /**
+   * Applies a signed decision from an authenticated approver. Self-approval is rejected, as is a decided_utc
+   * outside the ticket's validity window or more than MAX_DECISION_CLOCK_SKEW_MS away from the kernel clock.
+   */
+  decide(
+    args: {
+      ticket_id: string;
+      kind: ConfirmationDecisionKind;
+      decided_utc: string;
+      reason?: string;
+      credential: string;
+      signer_id: string;
+      signature: string;
+    },
+    verifier: ApproverVerifier
+  ): Promise<{ ok: boolean; ticket?: ConfirmationTicket; error?: string }> {
+    return this.exclusive(async (tickets) => {
+      const ticket = tickets.find((t) => t.ticket_id === args.ticket_id);
+      if (!ticket) return { ok: false, error: "TICKET_NOT_FOUND" };
+      if (ticket.status !== "PENDING") return { ok: false, error: `TICKET_${ticket.status}` };
+      if (!ticket.requested_by) return { ok: false, error: "TICKET_REQUESTER_UNKNOWN" }; // tickets persisted before it was required
+
+      const decided = Date.parse(args.decided_utc);
+      if (
+        isNaN(decided) ||
+        decided < Date.parse(ticket.requested_utc) ||
+        decided > Date.parse(ticket.expires_utc) ||
+        Math.abs(decided - this.now()) > MAX_DECISION_CLOCK_SKEW_MS
+      ) {
+        return { ok: false, error: "DECISION_TIME_INVALID" };
+      }
+
+      const decision_digest = await computeConfirmationDecisionDigest({
+        ticket_id: ticket.ticket_id,
+        request_hash: ticket.request_hash,
+        kind: args.kind,
+        decided_utc: args.decided_utc,
+        reason: args.reason
+      });
+      const who = await verifier.verify({ credential: args.credential, decision_digest, signer_id: args.signer_id, signature: args.signature });
+      if (!who.ok) return { ok: false, error: `APPROVER_REJECTED:${who.reason}` };
+      if (ticket.requested_by === who.approver_id) return { ok: false, error: "SELF_APPROVAL_FORBIDDEN" };
+
+      ticket.status = args.kind === "APPROVE" ? "APPROVED" : "DENIED";
+      ticket.decision = {
+        kind: args.kind,
+        approver_id: who.approver_id,
+        approver_label: who.approver_label,
+        decided_utc: args.decided_utc,
+        reason: args.reason,
+        decision_digest,
+        signer_id: args.signer_id,
+        signature: args.signature
+      };
+      return { ok: true, ticket: { ...ticket } };
+    });
+  }
+
+  /** Single-use: an APPROVED ticket matching request_hash becomes CONSUMED. */
+  consume(ticket_id: string, request_hash: string): Promise<{ ok: boolean; ticket?: ConfirmationTicket; error?: string }> {
+    return this.exclusive(async (tickets) => {
+      const ticket = tickets.find((t) => t.ticket_id === ticket_id);
+      if (!ticket) return { ok: false, error: "CONFIRMATION_NOT_FOUND" };
+      if (ticket.request_hash !== request_hash) return { ok: false, error: "CONFIRMATION_REQUEST_MISMATCH" };
+      if (ticket.status !== "APPROVED") return { ok: false, error: `CONFIRMATION_${ticket.status}` };
+      ticket.status = "CONSUMED";
+      return { ok: true, ticket: { ...ticket } };
+    });
+  }
+
+  list(filter?: { status?: ConfirmationStatus }): Promise<ConfirmationTicket[]> {
+    return this.exclusive(async (tickets) =>
+      tickets.filter((t) => !filter?.status || t.status === filter.status).map((t) => ({ ...t }))
+    );
+  }
+
+  private exclusive<R>(fn: (tickets: ConfirmationTicket[]) => Promise<R>): Promise<R> {
+    const run = this.tail.then(async () => {
+      const tickets = this.expire(await this.load());
+      const out = await fn(tickets);
+      await this.storage.set(this.storageKey, JSON.stringify(tickets));
+      return out;
+    });
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Marks stale PENDING/APPROVED tickets EXPIRED; settled tickets older than a day are dropped. */
+  private expire(tickets: ConfirmationTicket[]): ConfirmationTicket[] {
+    const now = this.now();
+    tickets.forEach((t) => {
+      if ((t.status === "PENDING" || t.status === "APPROVED") && Date.parse(t.expires_utc) <= now) t.status = "EXPIRED";
+    });
+    const keep = tickets.filter((t) => t.status === "PENDING" || t.status === "APPROVED" || now - Date.parse(t.expires_utc) < 24 * 60 * 60 * 1000);
+    tickets.splice(0, tickets.length, ...keep);
+    return tickets;
+  }
+
+  private async load(): Promise<ConfirmationTicket[]> {
+    if (this.tickets) return this.tickets;
+    const raw = await this.storage.get(this.storageKey);
+    this.tickets = raw ? JSON.parse(raw) : [];
+    return this.tickets!;
+  }
+}
@@ -0,0 +1,141 @@
+/* EvidenceLedger.ts
+   Append-only, SHA-256 hash-chained evidence ledger for kernel decisions.
+   Every governed action (ALLOW or DENY) is recorded with its frame, GOV verdict, DVAP verdict and outcome.
+*/
+
+import { canonicalStringify, isoNowUTC, omitUndefinedMembers, sha256Hex } from "./canonical";
+import type { CanonicalActionFrame, DVAPAttestation, GovernanceDecision, StorageAdapter } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export type LedgerEntryKind = "FEDERATION_CALL" | "ASSISTANCE" | "UPDATE" | "UPDATE_ACTIVATION" | "ROLLBACK";
+
+export interface LedgerEntryBody {
+  seq: number;
+  kind: LedgerEntryKind;
+  recorded_utc: string;
+  trace_id: string;
+  frame: CanonicalActionFrame;
+  input_frame_hash: string;
+  governance: GovernanceDecision;
+  dvap: DVAPAttestation | null; // null when DVAP not required or not reached
+  outcome: { ok: boolean; error?: string; source?: string };
+  prev_hash: string;
+}
+
+export interface LedgerEntry extends LedgerEntryBody {
+  entry_hash: string; // sha256(canonical(body)), body includes prev_hash
+}
+
+export interface LedgerHead {
+  length: number;
+  last_hash: string;
+}
+
+export interface LedgerVerification {
+  ok: boolean;
+  length: number;
+  first_broken_seq?: number;
+  error?: "ENTRY_MISSING" | "ENTRY_UNPARSEABLE" | "SEQ_MISMATCH" | "PREV_HASH_MISMATCH" | "ENTRY_HASH_MISMATCH" | "HEAD_MISMATCH";
+}
+
+export const LEDGER_GENESIS_HASH = "0".repeat(64);
+
+export function computeLedgerEntryHash(body: LedgerEntryBody): Promise<string> {
+  // Optional members are absent once an entry round-trips through storage; hash the stored shape.
+  return sha256Hex(canonicalStringify(omitUndefinedMembers(body)));
+}
+
+/** ---------- Ledger ---------- **/
+
+export class EvidenceLedger {
+  private readonly keyPrefix: string;
+  private head: LedgerHead | null = null;
+  private tail: Promise<unknown> = Promise.resolve(); // serializes appends
+
+  constructor(private readonly storage: StorageAdapter, agentId: string) {
+    this.keyPrefix = `acip.kernel.ledger.${agentId}`;
+  }
+
+  /** Append one decision record; chained to the previous entry. Appends are strictly ordered. */
+  append(entry: Omit<LedgerEntryBody, "seq" | "recorded_utc" | "prev_hash">): Promise<LedgerEntry> {
+    const run = this.tail.then(async () => {
+      const head = await this.loadHead();
+      const body: LedgerEntryBody = {
+        ...entry,
+        seq: head.length,
+        recorded_utc: isoNowUTC(),
+        prev_hash: head.last_hash
+      };
+      const record: LedgerEntry = { ...body, entry_hash: await computeLedgerEntryHash(body) };
+
+      // Entry first, then head: a crash in between leaves an orphan entry, never a dangling head.
+      await this.storage.set(this.entryKey(record.seq), JSON.stringify(record));
+      const next: LedgerHead = { length: head.length + 1, last_hash: record.entry_hash };
+      await this.storage.set(this.headKey(), JSON.stringify(next));
+      this.head = next;
+      return record;
+    });
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  async getHead(): Promise<LedgerHead> {
+    await this.tail;
+    return { ...(await this.loadHead()) };
+  }
+
+  async getEntry(seq: number): Promise<LedgerEntry | null> {
+    const raw = await this.storage.get(this.entryKey(seq));
+    return raw ? (JSON.parse(raw) as LedgerEntry) : null;
+  }
+
+  /** Walks the chain from genesis and reports the first broken link, if any. */
+  async verify(): Promise<LedgerVerification> {
+    await this.tail;
+    const rawHead = await this.storage.get(this.headKey());
+    const head: LedgerHead = rawHead ? JSON.parse(rawHead) : { length: 0, last_hash: LEDGER_GENESIS_HASH };
+
+    let prev = LEDGER_GENESIS_HASH;
+    for (let seq = 0; seq < head.length; seq++) {
+      const raw = await this.storage.get(this.entryKey(seq));
+      if (!raw) return { ok: false, length: head.length, first_broken_seq: seq, error: "ENTRY_MISSING" };
+
+      let e: LedgerEntry;
+      try {
+        e = JSON.parse(raw);
+      } catch {
+        return { ok: false, length: head.length, first_broken_seq: seq, error: "ENTRY_UNPARSEABLE" };
+      }
+
+      if (e.seq !== seq) return { ok: false, length: head.length, first_broken_seq: seq, error: "SEQ_MISMATCH" };
+      if (e.prev_hash !== prev) return { ok: false, length: head.length, first_broken_seq: seq, error: "PREV_HASH_MISMATCH" };
+
+      const { entry_hash, ...body } = e;
+      if ((await computeLedgerEntryHash(body)) !== entry_hash) {
+        return { ok: false, length: head.length, first_broken_seq: seq, error: "ENTRY_HASH_MISMATCH" };
+      }
+      prev = entry_hash;
+    }
+
+    // Truncation or a rewritten tail shows up as a head that no longer matches the chain.
+    if (prev !== head.last_hash) return { ok: false, length: head.length, first_broken_seq: head.length, error: "HEAD_MISMATCH" };
+
+    return { ok: true, length: head.length };
+  }
+
+  private async loadHead(): Promise<LedgerHead> {
+    if (this.head) return this.head;
+    const raw = await this.storage.get(this.headKey());
+    this.head = raw ? JSON.parse(raw) : { length: 0, last_hash: LEDGER_GENESIS_HASH };
+    return this.head!;
+  }
+
+  private headKey(): string {
+    return `${this.keyPrefix}.head`;
+  }
+
+  private entryKey(seq: number): string {
+    return `${this.keyPrefix}.${seq}`;
+  }
+}
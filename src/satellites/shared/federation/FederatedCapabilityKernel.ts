@@ -3,7 +3,38 @@
    Designed for ECHO-001 style federation, with strict GOV/VERIFY gating and DVAP hooks.
 */
 
-import crypto from "crypto";
+import { CanonicalizationError, canonicalStringify, isoNowUTC, omitUndefinedMembers, sha256Hex } from "./canonical";
+import { EvidenceLedger, LedgerEntryKind, LedgerVerification } from "./EvidenceLedger";
+import { DEFAULT_REPLAY_POLICY, ReplayGuard, ReplayPolicy } from "./ReplayGuard";
+import { SignerKeyring, verifyUpdatePackageSignature } from "./UpdateSigning";
+import { Clock, DEFAULT_RESILIENCE_POLICY, ResiliencePolicy, ResilientFederationExecutor } from "./ResilientFederation";
+import { sealState, StateIntegrityOptions, unsealState } from "./StateIntegrity";
+import { BUILTIN_STATE_MIGRATIONS, KERNEL_STATE_SCHEMA_VERSION, migrateState, StateMigration } from "./StateMigrations";
+import {
+  ApproverVerifier,
+  ConfirmationDecisionKind,
+  ConfirmationStatus,
+  ConfirmationTicket,
+  ConfirmationWorkflow,
+  DEFAULT_CONFIRMATION_TTL_MS
+} from "./ConfirmationWorkflow";
+import {
+  AssistanceEscalator,
+  AssistanceResult,
+  AssistanceRoute,
+  DEFAULT_HUMAN_TIMEOUT_MS,
+  HumanApprovalQueue
+} from "./AssistanceEscalation";
+import {
+  compareSemver,
+  findVersion,
+  InstalledPackageRecord,
+  InstalledPackageRegistry,
+  isValidSemver,
+  PackageAuthorization,
+  packageStorageKey,
+  PackageVersionRecord
+} from "./PackageRegistry";
 
 /** ---------- Types ---------- **/
 
@@ -33,12 +64,14 @@ export interface CapabilityManifest {
     enabled: boolean;
     sources: string[];             // e.g. ["MAS_CORE", "SATELLITE_POOL", "APP_CONNECTORS"]
     allowed_operations: string[];   // e.g. ["ASK_FEDERATION", "RUN_REMOTE_TOOL", "QUERY_VECTOR", ...]
+    resilience?: ResiliencePolicy;  // retry/backoff/timeout/breaker; DEFAULT_RESILIENCE_POLICY when omitted
   };
 
   assistance: {
     enabled: boolean;
-    routes: ("FEDERATION" | "HUMAN_ESCALATION" | "PEER_AGENT")[];
-    max_attempts: number;
+    routes: AssistanceRoute[];      // escalation order
+    max_attempts: number;           // per route, per trace
+    human_timeout_ms?: number;      // HUMAN_ESCALATION wait; DEFAULT_HUMAN_TIMEOUT_MS when omitted
   };
 
   updates: {
@@ -55,7 +88,13 @@ export interface CapabilityManifest {
     sdc_version: string;           // pinned policy version
     invariant_keys_required: string[];
     dvap_required_for_risk_tiers: RiskTier[];
+    // Tiers whose human_confirmation must come from an approved ticket, not the caller's boolean.
+    human_confirmation_required_for_risk_tiers?: RiskTier[];
+    confirmation_ttl_ms?: number;  // DEFAULT_CONFIRMATION_TTL_MS when omitted
   };
+
+  // Optional: replay window for action_ids. Defaults to DEFAULT_REPLAY_POLICY when omitted.
+  replay?: ReplayPolicy;
 }
 
 export interface PersistedKernelState {
@@ -63,6 +102,10 @@ export interface PersistedKernelState {
   last_boot_utc: string;
   last_manifest_hash: string;
   monotonic_counter: number; // increments each boot for auditing
+  state_schema_version?: string; // absent on 1.0.0 states; see StateMigrations
+  installed_packages?: InstalledPackageRegistry; // package_id -> version history (absent on pre-registry states)
+  // Set when a corrupted/unverifiable state was quarantined; updates stay blocked until clearSafeMode().
+  safe_mode?: { entered_utc: string; reason: string; quarantine_key: string };
 }
 
 export interface StorageAdapter {
@@ -70,14 +113,26 @@ export interface StorageAdapter {
   set(key: string, value: string): Promise<void>;
 }
 
+export interface GovernanceDecision {
+  verdict: Verdict;
+  reason: string;
+  policy_hash?: string;
+}
+
+export interface DVAPAttestation {
+  verdict: DVAPVerdict;
+  uva_hash?: string;
+  reason?: string;
+}
+
 export interface GovernanceGate {
   /** Must return ALLOW only when policy + invariants satisfied for the proposed action. */
-  evaluate(frame: CanonicalActionFrame): Promise<{ verdict: Verdict; reason: string; policy_hash?: string }>;
+  evaluate(frame: CanonicalActionFrame): Promise<GovernanceDecision>;
 }
 
 export interface DVAPClient {
   /** DVAP must be invoked only from GOV/VERIFY context. */
-  attest(frame: CanonicalActionFrame): Promise<{ verdict: DVAPVerdict; uva_hash?: string; reason?: string }>;
+  attest(frame: CanonicalActionFrame): Promise<DVAPAttestation>;
 }
 
 export interface FederationClient {
@@ -88,6 +143,7 @@ export interface FederationClient {
     operation: string;
     payload: Record<string, unknown>;
     risk_tier: RiskTier;
+    signal?: AbortSignal;  // the caller cancelled; stop and settle as soon as possible
   }): Promise<{ ok: boolean; result?: T; error?: string; source?: string }>;
 }
 
@@ -115,29 +171,9 @@ export interface UpdatePackage {
 
 /** ---------- Utilities ---------- **/
 
-function isoNowUTC(): string {
-  return new Date().toISOString();
-}
+export { canonicalStringify };
 
-function sha256Hex(input: string): string {
-  return crypto.createHash("sha256").update(input, "utf8").digest("hex");
-}
-
-/** Deterministic canonical JSON stringify: lexicographic sort of keys. */
-export function canonicalStringify(obj: Record<string, unknown>): string {
-  const sortKeys = (v: any): any => {
-    if (Array.isArray(v)) return v.map(sortKeys);
-    if (v && typeof v === "object") {
-      const out: Record<string, any> = {};
-      Object.keys(v).sort().forEach((k) => (out[k] = sortKeys(v[k])));
-      return out;
-    }
-    return v;
-  };
-  return JSON.stringify(sortKeys(obj));
-}
-
-export function computeInputFrameHash(frame: CanonicalActionFrame): string {
+export function computeInputFrameHash(frame: CanonicalActionFrame): Promise<string> {
   // Ensure deterministic serialization; exclude non-deterministic data.
   const canonical = canonicalStringify(frame as unknown as Record<string, unknown>);
   return sha256Hex(canonical);
@@ -147,6 +183,11 @@ export function computeInputFrameHash(frame: CanonicalActionFrame): string {
 
 export class FederatedCapabilityKernel {
   private readonly storageKey: string;
+  private readonly ledger: EvidenceLedger;
+  private readonly replay: ReplayGuard;
+  private readonly federation: ResilientFederationExecutor;
+  private readonly escalator: AssistanceEscalator;
+  private readonly confirmations: ConfirmationWorkflow;
   private state!: PersistedKernelState;
 
   constructor(
@@ -155,41 +196,64 @@ export class FederatedCapabilityKernel {
       governance: GovernanceGate;
       dvap: DVAPClient;
       federation: FederationClient;
-      assistance: AssistanceBroker;
+      assistance: AssistanceBroker;        // FEDERATION assistance route
+      peerAssistance?: AssistanceBroker;   // PEER_AGENT assistance route
+      approvalQueue?: HumanApprovalQueue;  // HUMAN_ESCALATION assistance route
+      approverVerifier?: ApproverVerifier; // authenticates signed confirmation decisions
+      keyring?: SignerKeyring; // built-in UpdatePackage verification when no verifySignature callback is given
+      clock?: Clock;           // drives federation timeouts/backoff; system clock by default
+      stateIntegrity?: StateIntegrityOptions; // HMAC key for sealing persisted state
+      stateMigrations?: StateMigration[];     // appended to BUILTIN_STATE_MIGRATIONS
       logger?: { info: (...a: any[]) => void; warn: (...a: any[]) => void; error: (...a: any[]) => void };
     },
     private readonly agentId: string
   ) {
     this.storageKey = `acip.kernel.state.${agentId}`;
+    this.ledger = new EvidenceLedger(deps.storage, agentId);
+    this.replay = new ReplayGuard(deps.storage, agentId);
+    this.federation = new ResilientFederationExecutor(deps.federation, deps.clock);
+    this.confirmations = new ConfirmationWorkflow(deps.storage, agentId);
+    this.escalator = new AssistanceEscalator({ FEDERATION: deps.assistance, PEER_AGENT: deps.peerAssistance }, deps.approvalQueue, deps.clock);
   }
 
-  /** Boot loads or initializes persistent capability awareness. */
+  /**
+   * Boot loads or initializes persistent capability awareness.
+   * Persisted state is only trusted after its seal verifies and its schema migrates cleanly;
+   * otherwise the blob is quarantined and the kernel starts from defaultManifest in safe mode.
+   */
   async boot(defaultManifest: CapabilityManifest): Promise<PersistedKernelState> {
     const raw = await this.deps.storage.get(this.storageKey);
 
     if (!raw) {
-      const manifestHash = sha256Hex(canonicalStringify(defaultManifest as any));
-      this.state = {
-        manifest: defaultManifest,
-        last_boot_utc: isoNowUTC(),
-        last_manifest_hash: manifestHash,
-        monotonic_counter: 1
-      };
+      this.state = await this.freshState(defaultManifest);
       await this.persist();
-      this.deps.logger?.info?.("[DVAP-KERNEL] Initialized new state", { agentId: this.agentId, manifestHash });
+      this.deps.logger?.info?.("[DVAP-KERNEL] Initialized new state", { agentId: this.agentId, manifestHash: this.state.last_manifest_hash });
       return this.state;
     }
 
-    const parsed: PersistedKernelState = JSON.parse(raw);
-    // Minimal integrity check: manifest must match agent id
-    if (parsed.manifest.agent_id !== this.agentId) {
-      throw new Error(`Kernel state agent_id mismatch. Expected=${this.agentId}, Found=${parsed.manifest.agent_id}`);
+    const opened = await unsealState(raw, this.deps.stateIntegrity);
+    if (!opened.ok) return this.enterSafeMode(raw, `INTEGRITY:${opened.reason}`, defaultManifest);
+
+    let parsed: PersistedKernelState;
+    try {
+      const migrated = migrateState(opened.state, [...BUILTIN_STATE_MIGRATIONS, ...(this.deps.stateMigrations ?? [])]);
+      parsed = migrated.state;
+      if (migrated.applied.length) {
+        this.deps.logger?.info?.("[DVAP-KERNEL] Migrated state", { agentId: this.agentId, from: migrated.from, applied: migrated.applied });
+      }
+    } catch (e) {
+      return this.enterSafeMode(raw, `MIGRATION:${(e as Error)?.message ?? "UNKNOWN"}`, defaultManifest);
+    }
+
+    // Manifest must match agent id
+    if (parsed.manifest?.agent_id !== this.agentId) {
+      return this.enterSafeMode(raw, `AGENT_ID_MISMATCH:${parsed.manifest?.agent_id}`, defaultManifest);
     }
 
     // Update boot info
     parsed.last_boot_utc = isoNowUTC();
     parsed.monotonic_counter = (parsed.monotonic_counter ?? 0) + 1;
-    parsed.last_manifest_hash = sha256Hex(canonicalStringify(parsed.manifest as any));
+    parsed.last_manifest_hash = await sha256Hex(canonicalStringify(omitUndefinedMembers(parsed.manifest)));
 
     this.state = parsed;
     await this.persist();
@@ -197,16 +261,41 @@ export class FederatedCapabilityKernel {
     this.deps.logger?.info?.("[DVAP-KERNEL] Booted state", {
       agentId: this.agentId,
       counter: this.state.monotonic_counter,
-      manifestHash: this.state.last_manifest_hash
+      manifestHash: this.state.last_manifest_hash,
+      legacySeal: opened.legacy,
+      safeMode: Boolean(this.state.safe_mode)
     });
 
     return this.state;
   }
 
+  /** Non-null while the kernel runs on safe defaults after quarantining bad state. */
+  getSafeMode(): PersistedKernelState["safe_mode"] | null {
+    return this.state.safe_mode ?? null;
+  }
+
+  /** Operator acknowledgement that the quarantined state has been reviewed; re-enables updates. */
+  async clearSafeMode(): Promise<void> {
+    if (!this.state.safe_mode) return;
+    this.deps.logger?.warn?.("[DVAP-KERNEL] Safe mode cleared", { agentId: this.agentId, quarantine_key: this.state.safe_mode.quarantine_key });
+    delete this.state.safe_mode;
+    await this.persist();
+  }
+
   getManifest(): CapabilityManifest {
     return this.state.manifest;
   }
 
+  /** Snapshot of the persisted state (manifest, boot counter, manifest hash, safe mode) for status displays. */
+  getState(): Readonly<PersistedKernelState> {
+    return { ...this.state };
+  }
+
+  /** Verifies the evidence ledger hash chain; reports the first broken link. */
+  async verifyLedger(): Promise<LedgerVerification> {
+    return this.ledger.verify();
+  }
+
   /** Primary governed entrypoint: execute a federated operation under policy + DVAP (T2/T3). */
   async governedFederationCall<T>(args: {
     trace_id: string;
@@ -214,66 +303,194 @@ export class FederatedCapabilityKernel {
     operation: string;
     payload: Record<string, unknown>;
     risk_tier: RiskTier;
-    human_confirmation?: boolean;
-  }): Promise<{ ok: boolean; result?: T; uva_hash?: string; input_frame_hash?: string; error?: string; source?: string }> {
+    human_confirmation?: boolean;        // ignored for tiers that require a confirmation ticket
+    confirmation_ticket_id?: string;     // approved ticket from requestConfirmation()
+    extensions?: Record<string, string | number | boolean>; // invariant keys / policy inputs; "operation" and "confirmation_*" are reserved
+    signal?: AbortSignal;                // cancels the call; ABORTED before dispatch leaves the action_id retryable
+  }): Promise<{
+    ok: boolean;
+    result?: T;
+    uva_hash?: string;
+    input_frame_hash?: string;
+    error?: string;
+    source?: string;
+    cached?: boolean;
+    assistance?: AssistanceResult; // escalation outcome when the federated operation failed
+  }> {
     const m = this.state.manifest;
 
     if (!m.federation.enabled) return { ok: false, error: "FEDERATION_DISABLED" };
     if (!m.federation.allowed_operations.includes(args.operation)) return { ok: false, error: "OP_NOT_ALLOWED" };
+    if (args.signal?.aborted) return { ok: false, error: "ABORTED" };
 
-    // Build canonical action frame for GOV/VERIFY + DVAP
-    const frame: CanonicalActionFrame = {
-      action_id: args.action_id,
-      agent_id: this.agentId,
-      risk_tier: args.risk_tier,
-      sdc_version: m.governance.sdc_version,
-      policy_verdict: true,            // set after governance evaluation
-      constraints_satisfied: true,     // set after governance evaluation
-      human_confirmation: Boolean(args.human_confirmation),
-      timestamp_utc: isoNowUTC(),
-      hash_algorithm: "SHA-256"
-    };
-
-    // GOV evaluation
-    const gov = await this.deps.governance.evaluate(frame);
-    if (gov.verdict === "DENY") {
-      return { ok: false, error: `GOV_DENY:${gov.reason}` };
+    // Replay protection: an action_id executes at most once within the window.
+    const replayPolicy = m.replay ?? DEFAULT_REPLAY_POLICY;
+    let request_hash: string;
+    try {
+      request_hash = await this.requestHash(args);
+      canonicalStringify(args.extensions ?? {}); // frame extensions must hash too; fail before reserving
+    } catch (e) {
+      if (e instanceof CanonicalizationError) return { ok: false, error: `NOT_CANONICAL:${e.path}` };
+      throw e;
+    }
+    const seen = await this.replay.checkAndReserve({ action_id: args.action_id, operation: args.operation, request_hash }, replayPolicy);
+    if (seen.status === "CACHED") {
+      return { ...(seen.prior.result as { ok: boolean; result?: T }), cached: true };
+    }
+    if (seen.status === "REPLAY") {
+      this.deps.logger?.warn?.("[DVAP-KERNEL] Replay rejected", { agentId: this.agentId, action_id: args.action_id });
+      return { ok: false, error: "REPLAY_DETECTED" };
     }
 
-    // DVAP mandatory for configured tiers
-    const dvapRequired = m.governance.dvap_required_for_risk_tiers.includes(args.risk_tier);
-    const input_frame_hash = computeInputFrameHash(frame);
+    // From here the action_id is IN_FLIGHT. If anything below throws, the reservation must not outlive the call:
+    // before execution it is released so the action can be retried; after it, completed as failed.
+    let phase: "reserved" | "executed" | "settled" = "reserved";
+    try {
+      // Human confirmation: required tiers accept only a consumed, approved ticket for this exact request.
+      let human_confirmation = Boolean(args.human_confirmation);
+      const confirmationExt: Record<string, string> = {};
+      const confirmationRequired = (m.governance.human_confirmation_required_for_risk_tiers ?? []).includes(args.risk_tier);
+      if (confirmationRequired || args.confirmation_ticket_id) {
+        const consumed = args.confirmation_ticket_id
+          ? await this.confirmations.consume(args.confirmation_ticket_id, request_hash)
+          : { ok: false, error: "HUMAN_CONFIRMATION_REQUIRED" };
+        if (!consumed.ok) {
+          await this.replay.release(args.action_id, replayPolicy);
+          phase = "settled";
+          return { ok: false, error: consumed.error };
+        }
+        human_confirmation = true;
+        confirmationExt.confirmation_ticket_id = consumed.ticket!.ticket_id;
+        confirmationExt.confirmation_approver = consumed.ticket!.decision!.approver_id;
+      }
 
-    let uva_hash: string | undefined;
-    if (dvapRequired) {
-      const dv = await this.deps.dvap.attest(frame);
-      if (dv.verdict !== "ATTESTED") {
-        return { ok: false, input_frame_hash, error: `DVAP_REFUSED:${dv.reason ?? "UNKNOWN"}` };
+      // Build canonical action frame for GOV/VERIFY + DVAP
+      const frame: CanonicalActionFrame = {
+        action_id: args.action_id,
+        agent_id: this.agentId,
+        risk_tier: args.risk_tier,
+        sdc_version: m.governance.sdc_version,
+        policy_verdict: true,            // set after governance evaluation
+        constraints_satisfied: true,     // set after governance evaluation
+        human_confirmation,
+        timestamp_utc: isoNowUTC(),
+        hash_algorithm: "SHA-256",
+        extensions: { ...args.extensions, ...confirmationExt, operation: args.operation }
+      };
+
+      const input_frame_hash = await computeInputFrameHash(frame);
+      const evidence = { kind: "FEDERATION_CALL" as const, trace_id: args.trace_id, frame, input_frame_hash };
+
+      // GOV evaluation
+      const gov = await this.deps.governance.evaluate(frame);
+      if (gov.verdict === "DENY") {
+        const error = `GOV_DENY:${gov.reason}`;
+        await this.replay.release(args.action_id, replayPolicy);
+        phase = "settled";
+        await this.record({ ...evidence, gov, dvap: null, outcome: { ok: false, error } });
+        return { ok: false, input_frame_hash, error };
       }
-      uva_hash = dv.uva_hash;
-    }
 
-    // Execute via federation (elastic compute / logic)
-    const res = await this.deps.federation.request<T>({
-      trace_id: args.trace_id,
-      agent_id: this.agentId,
-      operation: args.operation,
-      payload: args.payload,
-      risk_tier: args.risk_tier
-    });
+      // DVAP mandatory for configured tiers
+      const dvapRequired = m.governance.dvap_required_for_risk_tiers.includes(args.risk_tier);
+
+      let uva_hash: string | undefined;
+      let dv: DVAPAttestation | null = null;
+      if (dvapRequired) {
+        dv = await this.deps.dvap.attest(frame);
+        if (dv.verdict !== "ATTESTED") {
+          const error = `DVAP_REFUSED:${dv.reason ?? "UNKNOWN"}`;
+          await this.replay.release(args.action_id, replayPolicy);
+          phase = "settled";
+          await this.record({ ...evidence, gov, dvap: dv, outcome: { ok: false, error } });
+          return { ok: false, input_frame_hash, error };
+        }
+        uva_hash = dv.uva_hash;
+      }
 
-    if (!res.ok) {
-      // Optionally route to assistance if permitted
-      const assist = await this.tryAssistance({
+      // Cancelled while being governed: nothing was dispatched, so the action_id is released.
+      if (args.signal?.aborted) {
+        await this.replay.release(args.action_id, replayPolicy);
+        phase = "settled";
+        await this.record({ ...evidence, gov, dvap: dv, outcome: { ok: false, error: "ABORTED" } });
+        return { ok: false, uva_hash, input_frame_hash, error: "ABORTED" };
+      }
+
+      // Execute via federation (elastic compute / logic) with retry, timeout and circuit breaker
+      const res = await this.federation.execute<T>({
         trace_id: args.trace_id,
+        agent_id: this.agentId,
+        operation: args.operation,
+        payload: args.payload,
         risk_tier: args.risk_tier,
-        query: `Federation operation failed: ${args.operation}`,
-        context: { error: res.error, operation: args.operation }
-      });
-      return { ok: false, uva_hash, input_frame_hash, error: res.error ?? "FEDERATION_ERROR", source: res.source, ...(assist.ok ? { error: `${res.error} | assist:${assist.route_used}` } : {}) };
+        signal: args.signal
+      }, m.federation.resilience ?? DEFAULT_RESILIENCE_POLICY);
+      phase = "executed";
+
+      if (!res.ok) {
+        // Optionally route to assistance if permitted; a cancelled call is not escalated
+        const assist = args.signal?.aborted ? undefined : await this.tryAssistance({
+          trace_id: args.trace_id,
+          risk_tier: args.risk_tier,
+          query: `Federation operation failed: ${args.operation}`,
+          context: { error: res.error, operation: args.operation }
+        });
+        const failed = { ok: false, uva_hash, input_frame_hash, error: res.error ?? "FEDERATION_ERROR", source: res.source, assistance: assist };
+        // The operation may have partially executed remotely, so the action_id stays consumed.
+        await this.replay.complete(args.action_id, failed, replayPolicy);
+        phase = "settled";
+        await this.record({ ...evidence, gov, dvap: dv, outcome: { ok: false, error: failed.error, source: res.source } });
+        return failed;
+      }
+
+      const done = { ok: true, result: res.result, uva_hash, input_frame_hash, source: res.source };
+      await this.replay.complete(args.action_id, done, replayPolicy);
+      phase = "settled";
+      await this.record({ ...evidence, gov, dvap: dv, outcome: { ok: true, source: res.source } });
+      return done;
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      if (phase === "reserved") await this.replay.release(args.action_id, replayPolicy).catch(() => undefined);
+      if (phase === "executed") await this.replay.complete(args.action_id, { ok: false, error }, replayPolicy).catch(() => undefined);
+      throw e;
     }
+  }
+
+  /** Issues a pending confirmation ticket for a federated request; pass its id to governedFederationCall once approved. */
+  async requestConfirmation(args: {
+    trace_id: string;
+    action_id: string;
+    operation: string;
+    payload: Record<string, unknown>;
+    risk_tier: RiskTier;
+    requested_by: string;  // user or agent identity behind the request; can never approve it
+  }): Promise<ConfirmationTicket> {
+    return this.confirmations.issue(
+      { ...args, request_hash: await this.requestHash(args) },
+      this.state.manifest.governance.confirmation_ttl_ms ?? DEFAULT_CONFIRMATION_TTL_MS
+    );
+  }
 
-    return { ok: true, result: res.result, uva_hash, input_frame_hash, source: res.source };
+  /** Records an APPROVE/DENY decision signed with an authenticated approver's registered key. */
+  async decideConfirmation(args: {
+    ticket_id: string;
+    kind: ConfirmationDecisionKind;
+    decided_utc: string;
+    reason?: string;
+    credential: string;
+    signer_id: string;
+    signature: string;
+  }): Promise<{ ok: boolean; ticket?: ConfirmationTicket; error?: string }> {
+    if (!this.deps.approverVerifier) return { ok: false, error: "NO_APPROVER_VERIFIER" };
+    const res = await this.confirmations.decide(args, this.deps.approverVerifier);
+    if (res.ok) {
+      this.deps.logger?.info?.("[DVAP-KERNEL] Confirmation decided", { ticket_id: args.ticket_id, kind: args.kind, approver: res.ticket?.decision?.approver_id });
+    }
+    return res;
+  }
+
+  listConfirmations(filter?: { status?: ConfirmationStatus }): Promise<ConfirmationTicket[]> {
+    return this.confirmations.list(filter);
   }
 
   /** Governed assistance request: allows the agent to request help under policy. */
@@ -283,13 +500,13 @@ export class FederatedCapabilityKernel {
     query: string;
     context?: Record<string, unknown>;
     human_confirmation?: boolean;
-  }): Promise<{ ok: boolean; response?: string; route_used?: string; error?: string }> {
+  }): Promise<{ ok: boolean; response?: string; route_used?: string; error?: string; attempts?: AssistanceResult["attempts"] }> {
     const m = this.state.manifest;
     if (!m.assistance.enabled) return { ok: false, error: "ASSISTANCE_DISABLED" };
 
     // Assistance itself is an action; gate it.
     const frame: CanonicalActionFrame = {
-      action_id: `assist_${sha256Hex(args.trace_id + args.query).slice(0, 12)}`,
+      action_id: `assist_${(await sha256Hex(args.trace_id + args.query)).slice(0, 12)}`,
       agent_id: this.agentId,
       risk_tier: args.risk_tier,
       sdc_version: m.governance.sdc_version,
@@ -297,26 +514,34 @@ export class FederatedCapabilityKernel {
       constraints_satisfied: true,
       human_confirmation: Boolean(args.human_confirmation),
       timestamp_utc: isoNowUTC(),
-      hash_algorithm: "SHA-256"
+      hash_algorithm: "SHA-256",
+      extensions: { operation: "REQUEST_ASSISTANCE" }
     };
 
+    const evidence = { kind: "ASSISTANCE" as const, trace_id: args.trace_id, frame, input_frame_hash: await computeInputFrameHash(frame) };
+
     const gov = await this.deps.governance.evaluate(frame);
-    if (gov.verdict === "DENY") return { ok: false, error: `GOV_DENY:${gov.reason}` };
+    if (gov.verdict === "DENY") {
+      const error = `GOV_DENY:${gov.reason}`;
+      await this.record({ ...evidence, gov, dvap: null, outcome: { ok: false, error } });
+      return { ok: false, error };
+    }
 
     // DVAP optional for assistance unless your policy wants it for T3.
     const dvapRequired = m.governance.dvap_required_for_risk_tiers.includes(args.risk_tier);
+    let dv: DVAPAttestation | null = null;
     if (dvapRequired) {
-      const dv = await this.deps.dvap.attest(frame);
-      if (dv.verdict !== "ATTESTED") return { ok: false, error: `DVAP_REFUSED:${dv.reason ?? "UNKNOWN"}` };
+      dv = await this.deps.dvap.attest(frame);
+      if (dv.verdict !== "ATTESTED") {
+        const error = `DVAP_REFUSED:${dv.reason ?? "UNKNOWN"}`;
+        await this.record({ ...evidence, gov, dvap: dv, outcome: { ok: false, error } });
+        return { ok: false, error };
+      }
     }
 
-    return this.deps.assistance.requestAssistance({
-      trace_id: args.trace_id,
-      agent_id: this.agentId,
-      query: args.query,
-      context: args.context,
-      risk_tier: args.risk_tier
-    });
+    const res = await this.escalate(args);
+    await this.record({ ...evidence, gov, dvap: dv, outcome: { ok: res.ok, error: res.error, source: res.route_used } });
+    return res;
   }
 
   /**
@@ -324,25 +549,215 @@ export class FederatedCapabilityKernel {
    * - No self-modifying code.
    * - Only signed SKILL_CAPSULE/CONFIG_BUNDLE packages.
    * - Requires governance approval + DVAP for configured risk tiers.
+   * Convenience wrapper: stage then activate in one call.
    */
   async applyUpdatePackage(args: {
     trace_id: string;
     risk_tier: RiskTier;
     pkg: UpdatePackage;
     human_confirmation?: boolean;
-    verifySignature: (pkg: UpdatePackage, trustedSigners: string[]) => Promise<boolean>;
+    verifySignature?: (pkg: UpdatePackage, trustedSigners: string[]) => Promise<boolean>; // overrides the keyring verifier
     applyBundle: (pkg: UpdatePackage) => Promise<void>; // performs configuration/skill registry update
+  }): Promise<{ ok: boolean; error?: string }> {
+    const staged = await this.stageUpdatePackage(args);
+    if (!staged.ok) return staged;
+    return this.activateStagedPackage({ trace_id: args.trace_id, package_id: args.pkg.package_id, applyBundle: args.applyBundle });
+  }
+
+  /**
+   * Phase 1: verify, downgrade-check and gate an update, then persist it as STAGED.
+   * Nothing is applied until activateStagedPackage().
+   */
+  async stageUpdatePackage(args: {
+    trace_id: string;
+    risk_tier: RiskTier;
+    pkg: UpdatePackage;
+    human_confirmation?: boolean;
+    verifySignature?: (pkg: UpdatePackage, trustedSigners: string[]) => Promise<boolean>;
   }): Promise<{ ok: boolean; error?: string }> {
     const m = this.state.manifest;
     if (!m.updates.enabled) return { ok: false, error: "UPDATES_DISABLED" };
+    if (this.state.safe_mode) return { ok: false, error: "SAFE_MODE" };
     if (!m.updates.allowed_channels.includes(args.pkg.channel)) return { ok: false, error: "UPDATE_CHANNEL_NOT_ALLOWED" };
-    if (m.updates.require_signature && !(await args.verifySignature(args.pkg, m.updates.trusted_signers))) {
-      return { ok: false, error: "INVALID_SIGNATURE" };
+    if (!isValidSemver(args.pkg.version)) return { ok: false, error: "INVALID_VERSION" };
+
+    const sigError = await this.checkUpdateSignature(args.pkg, args.verifySignature);
+    if (sigError) return { ok: false, error: sigError };
+
+    const registry = this.installedPackages();
+    const existing = registry[args.pkg.package_id];
+    if (existing && existing.channel !== args.pkg.channel) return { ok: false, error: "UPDATE_CHANNEL_MISMATCH" };
+    if (existing?.active_version) {
+      const cmp = compareSemver(args.pkg.version, existing.active_version);
+      if (cmp === 0) return { ok: false, error: "VERSION_ALREADY_ACTIVE" };
+      if (cmp < 0) return { ok: false, error: `DOWNGRADE_REJECTED:${existing.active_version}` };
     }
 
     // Gate the update as an action
-    const frame: CanonicalActionFrame = {
+    const gate = await this.gateUpdate({
+      kind: "UPDATE",
+      trace_id: args.trace_id,
+      risk_tier: args.risk_tier,
+      human_confirmation: args.human_confirmation,
       action_id: `update_${args.pkg.package_id}`,
+      extensions: {
+        operation: "APPLY_UPDATE",
+        channel: args.pkg.channel,
+        version: args.pkg.version,
+        signer: args.pkg.signer_id ?? "unknown"
+      }
+    });
+    if (!gate.ok) return gate;
+
+    await this.deps.storage.set(packageStorageKey(this.agentId, args.pkg.package_id, args.pkg.version), JSON.stringify(args.pkg));
+
+    const record: InstalledPackageRecord = existing ?? {
+      package_id: args.pkg.package_id,
+      channel: args.pkg.channel,
+      active_version: null,
+      staged_version: null,
+      history: []
+    };
+    if (record.staged_version) {
+      const prev = findVersion(record, record.staged_version);
+      if (prev) prev.status = "DISCARDED";
+    }
+    record.history = record.history.filter((h) => h.version !== args.pkg.version);
+    record.history.push({
+      version: args.pkg.version,
+      created_utc: args.pkg.created_utc,
+      signer_id: args.pkg.signer_id,
+      payload_sha256: await sha256Hex(args.pkg.payload_b64),
+      status: "STAGED",
+      staged_utc: isoNowUTC(),
+      authorization: gate.authorization
+    });
+    record.staged_version = args.pkg.version;
+    registry[args.pkg.package_id] = record;
+
+    await this.persist();
+    const auth = gate.authorization;
+    await this.record({
+      kind: "UPDATE",
+      trace_id: args.trace_id,
+      frame: auth.frame,
+      input_frame_hash: auth.input_frame_hash,
+      gov: auth.governance,
+      dvap: auth.dvap,
+      outcome: { ok: true }
+    });
+    return { ok: true };
+  }
+
+  /** Phase 2: apply the STAGED version under the authorization recorded when it was staged. */
+  async activateStagedPackage(args: {
+    trace_id: string;
+    package_id: string;
+    applyBundle: (pkg: UpdatePackage) => Promise<void>;
+  }): Promise<{ ok: boolean; error?: string }> {
+    if (this.state.safe_mode) return { ok: false, error: "SAFE_MODE" };
+    const record = this.installedPackages()[args.package_id];
+    if (!record?.staged_version) return { ok: false, error: "NOTHING_STAGED" };
+
+    const staged = findVersion(record, record.staged_version)!;
+    const raw = await this.deps.storage.get(packageStorageKey(this.agentId, args.package_id, staged.version));
+    if (!raw) return { ok: false, error: "STAGED_PACKAGE_MISSING" };
+    const pkg: UpdatePackage = JSON.parse(raw);
+    if ((await sha256Hex(pkg.payload_b64)) !== staged.payload_sha256) return { ok: false, error: "STAGED_PACKAGE_TAMPERED" };
+
+    const activated = await this.activateVersion({ kind: "UPDATE_ACTIVATION", trace_id: args.trace_id, record, target: staged, pkg, applyBundle: args.applyBundle });
+    if (!activated.ok) return activated; // still STAGED; activation can be retried
+    record.staged_version = null;
+    await this.persist();
+    return { ok: true };
+  }
+
+  /** Governed rollback to a previously activated version; gated exactly like an update. */
+  async rollbackTo(
+    package_id: string,
+    version: string,
+    args: {
+      trace_id: string;
+      risk_tier: RiskTier;
+      human_confirmation?: boolean;
+      verifySignature?: (pkg: UpdatePackage, trustedSigners: string[]) => Promise<boolean>;
+      applyBundle: (pkg: UpdatePackage) => Promise<void>;
+    }
+  ): Promise<{ ok: boolean; error?: string }> {
+    const m = this.state.manifest;
+    if (!m.updates.enabled) return { ok: false, error: "UPDATES_DISABLED" };
+    if (this.state.safe_mode) return { ok: false, error: "SAFE_MODE" };
+
+    const record = this.installedPackages()[package_id];
+    if (!record) return { ok: false, error: "PACKAGE_NOT_INSTALLED" };
+    if (record.active_version === version) return { ok: false, error: "VERSION_ALREADY_ACTIVE" };
+    const target = findVersion(record, version);
+    if (!target?.activated_utc) return { ok: false, error: "VERSION_NOT_IN_HISTORY" };
+    if (!m.updates.allowed_channels.includes(record.channel)) return { ok: false, error: "UPDATE_CHANNEL_NOT_ALLOWED" };
+
+    const raw = await this.deps.storage.get(packageStorageKey(this.agentId, package_id, version));
+    if (!raw) return { ok: false, error: "ROLLBACK_PACKAGE_MISSING" };
+    const pkg: UpdatePackage = JSON.parse(raw);
+    if ((await sha256Hex(pkg.payload_b64)) !== target.payload_sha256) return { ok: false, error: "ROLLBACK_PACKAGE_TAMPERED" };
+
+    // Re-verify against the current keyring: a signer revoked since install must not come back via rollback.
+    const sigError = await this.checkUpdateSignature(pkg, args.verifySignature);
+    if (sigError) return { ok: false, error: sigError };
+
+    const gate = await this.gateUpdate({
+      kind: "ROLLBACK",
+      trace_id: args.trace_id,
+      risk_tier: args.risk_tier,
+      human_confirmation: args.human_confirmation,
+      action_id: `rollback_${package_id}`,
+      extensions: {
+        operation: "ROLLBACK_UPDATE",
+        channel: record.channel,
+        version,
+        from_version: record.active_version ?? "none",
+        signer: pkg.signer_id ?? "unknown"
+      }
+    });
+    if (!gate.ok) return gate;
+
+    target.authorization = gate.authorization;
+    const activated = await this.activateVersion({ kind: "ROLLBACK", trace_id: args.trace_id, record, target, pkg, applyBundle: args.applyBundle, rollback: true });
+    if (!activated.ok) return activated;
+    await this.persist();
+    return { ok: true };
+  }
+
+  getInstalledPackages(): InstalledPackageRegistry {
+    return JSON.parse(JSON.stringify(this.installedPackages()));
+  }
+
+  /** Internal: built-in keyring verification unless the caller supplies its own verifier. */
+  private async checkUpdateSignature(
+    pkg: UpdatePackage,
+    verifySignature?: (pkg: UpdatePackage, trustedSigners: string[]) => Promise<boolean>
+  ): Promise<string | null> {
+    const m = this.state.manifest;
+    if (!m.updates.require_signature) return null;
+    if (verifySignature) {
+      return (await verifySignature(pkg, m.updates.trusted_signers)) ? null : "INVALID_SIGNATURE";
+    }
+    if (!this.deps.keyring) return "INVALID_SIGNATURE:NO_KEYRING";
+    const sig = await verifyUpdatePackageSignature(pkg, m.updates.trusted_signers, this.deps.keyring);
+    return sig.ok ? null : `INVALID_SIGNATURE:${sig.error}`;
+  }
+
+  /** Internal: GOV + DVAP gating shared by staging and rollback. Denials are recorded here. */
+  private async gateUpdate(args: {
+    kind: LedgerEntryKind;
+    trace_id: string;
+    risk_tier: RiskTier;
+    human_confirmation?: boolean;
+    action_id: string;
+    extensions: Record<string, string | number | boolean>;
+  }): Promise<{ ok: true; authorization: PackageAuthorization } | { ok: false; error: string }> {
+    const m = this.state.manifest;
+    const frame: CanonicalActionFrame = {
+      action_id: args.action_id,
       agent_id: this.agentId,
       risk_tier: args.risk_tier,
       sdc_version: m.governance.sdc_version,
@@ -351,57 +766,154 @@ export class FederatedCapabilityKernel {
       human_confirmation: Boolean(args.human_confirmation),
       timestamp_utc: isoNowUTC(),
       hash_algorithm: "SHA-256",
-      extensions: {
-        channel: args.pkg.channel,
-        version: args.pkg.version,
-        signer: args.pkg.signer_id ?? "unknown"
-      }
+      extensions: args.extensions
     };
 
+    const evidence = { kind: args.kind, trace_id: args.trace_id, frame, input_frame_hash: await computeInputFrameHash(frame) };
+
     const gov = await this.deps.governance.evaluate(frame);
-    if (gov.verdict === "DENY") return { ok: false, error: `GOV_DENY:${gov.reason}` };
+    if (gov.verdict === "DENY") {
+      const error = `GOV_DENY:${gov.reason}`;
+      await this.record({ ...evidence, gov, dvap: null, outcome: { ok: false, error } });
+      return { ok: false, error };
+    }
 
     const dvapRequired = m.updates.require_dvap_for_risk_tiers.includes(args.risk_tier);
+    let dv: DVAPAttestation | null = null;
     if (dvapRequired) {
-      const dv = await this.deps.dvap.attest(frame);
-      if (dv.verdict !== "ATTESTED") return { ok: false, error: `DVAP_REFUSED:${dv.reason ?? "UNKNOWN"}` };
+      dv = await this.deps.dvap.attest(frame);
+      if (dv.verdict !== "ATTESTED") {
+        const error = `DVAP_REFUSED:${dv.reason ?? "UNKNOWN"}`;
+        await this.record({ ...evidence, gov, dvap: dv, outcome: { ok: false, error } });
+        return { ok: false, error };
+      }
     }
 
-    await args.applyBundle(args.pkg);
+    return { ok: true, authorization: { frame, input_frame_hash: evidence.input_frame_hash, governance: gov, dvap: dv } };
+  }
+
+  /** Internal: apply a version's bundle and move it to ACTIVE; the previous active version is superseded/rolled back. */
+  private async activateVersion(args: {
+    kind: LedgerEntryKind;
+    trace_id: string;
+    record: InstalledPackageRecord;
+    target: PackageVersionRecord;
+    pkg: UpdatePackage;
+    applyBundle: (pkg: UpdatePackage) => Promise<void>;
+    rollback?: boolean;
+  }): Promise<{ ok: boolean; error?: string }> {
+    const auth = args.target.authorization;
+    const evidence = { kind: args.kind, trace_id: args.trace_id, frame: auth.frame, input_frame_hash: auth.input_frame_hash, gov: auth.governance, dvap: auth.dvap };
+
+    try {
+      await args.applyBundle(args.pkg);
+    } catch (e) {
+      // Nothing was activated: version statuses stay as they were.
+      const error = `APPLY_FAILED:${(e as Error)?.message ?? "UNKNOWN"}`;
+      await this.record({ ...evidence, outcome: { ok: false, error } });
+      return { ok: false, error };
+    }
+
+    if (args.record.active_version) {
+      const prev = findVersion(args.record, args.record.active_version);
+      if (prev) prev.status = args.rollback ? "ROLLED_BACK" : "SUPERSEDED";
+    }
+    args.target.status = "ACTIVE";
+    args.target.activated_utc = isoNowUTC();
+    args.record.active_version = args.target.version;
 
     // Persist manifest hash / state after update
-    this.state.last_manifest_hash = sha256Hex(canonicalStringify(this.state.manifest as any));
+    this.state.last_manifest_hash = await sha256Hex(canonicalStringify(omitUndefinedMembers(this.state.manifest)));
     await this.persist();
-
+    await this.record({ ...evidence, outcome: { ok: true } });
     return { ok: true };
   }
 
+  private installedPackages(): InstalledPackageRegistry {
+    if (!this.state.installed_packages) this.state.installed_packages = {};
+    return this.state.installed_packages;
+  }
+
   /** Internal: bounded assistance attempt for federation failures. */
   private async tryAssistance(args: {
     trace_id: string;
     risk_tier: RiskTier;
     query: string;
     context?: Record<string, unknown>;
-  }): Promise<{ ok: boolean; route_used?: string }> {
+  }): Promise<AssistanceResult> {
     const m = this.state.manifest;
-    if (!m.assistance.enabled) return { ok: false };
-    // Rate-limit attempts by manifest config
-    // (You can extend with per-trace counters in evidence plane; this keeps kernel stateless beyond persisted state.)
-    try {
-      const res = await this.deps.assistance.requestAssistance({
-        trace_id: args.trace_id,
-        agent_id: this.agentId,
-        query: args.query,
-        context: args.context,
-        risk_tier: args.risk_tier
-      });
-      return { ok: Boolean(res.ok), route_used: res.route_used };
-    } catch {
-      return { ok: false };
-    }
+    if (!m.assistance.enabled) return { ok: false, attempts: [], error: "ASSISTANCE_DISABLED" };
+    return this.escalate(args);
+  }
+
+  /** Internal: ordered escalation over manifest routes; attempts are counted per trace. */
+  private escalate(args: { trace_id: string; risk_tier: RiskTier; query: string; context?: Record<string, unknown> }): Promise<AssistanceResult> {
+    const a = this.state.manifest.assistance;
+    return this.escalator.escalate(
+      { trace_id: args.trace_id, agent_id: this.agentId, query: args.query, context: args.context, risk_tier: args.risk_tier },
+      { routes: a.routes, max_attempts: a.max_attempts, human_timeout_ms: a.human_timeout_ms ?? DEFAULT_HUMAN_TIMEOUT_MS }
+    );
+  }
+
+  /** Internal: brand-new state at the current schema version. */
+  private async freshState(manifest: CapabilityManifest): Promise<PersistedKernelState> {
+    return {
+      manifest,
+      last_boot_utc: isoNowUTC(),
+      last_manifest_hash: await sha256Hex(canonicalStringify(omitUndefinedMembers(manifest))),
+      monotonic_counter: 1,
+      state_schema_version: KERNEL_STATE_SCHEMA_VERSION,
+      installed_packages: {}
+    };
+  }
+
+  /** Internal: keep the untrusted blob for forensics and continue on defaults rather than bad data. */
+  private async enterSafeMode(raw: string, reason: string, defaultManifest: CapabilityManifest): Promise<PersistedKernelState> {
+    const quarantine_key = `acip.kernel.quarantine.${this.agentId}.${Date.now()}`;
+    await this.deps.storage.set(quarantine_key, raw);
+
+    this.state = {
+      ...(await this.freshState(defaultManifest)),
+      safe_mode: { entered_utc: isoNowUTC(), reason, quarantine_key }
+    };
+    await this.persist();
+
+    this.deps.logger?.error?.("[DVAP-KERNEL] State quarantined; booted in safe mode", { agentId: this.agentId, reason, quarantine_key });
+    return this.state;
+  }
+
+  /** Internal: binds replay and confirmation records to the exact request. */
+  private requestHash(args: { action_id: string; operation: string; payload: Record<string, unknown>; risk_tier: RiskTier }): Promise<string> {
+    return sha256Hex(canonicalStringify({
+      action_id: args.action_id,
+      operation: args.operation,
+      payload: omitUndefinedMembers(args.payload), // payloads travel as JSON, where undefined members vanish
+      risk_tier: args.risk_tier
+    }));
+  }
+
+  /** Internal: append a decision to the evidence ledger (GOV + DVAP verdicts and outcome). */
+  private async record(args: {
+    kind: LedgerEntryKind;
+    trace_id: string;
+    frame: CanonicalActionFrame;
+    input_frame_hash: string;
+    gov: GovernanceDecision;
+    dvap: DVAPAttestation | null;
+    outcome: { ok: boolean; error?: string; source?: string };
+  }): Promise<void> {
+    await this.ledger.append({
+      kind: args.kind,
+      trace_id: args.trace_id,
+      frame: args.frame,
+      input_frame_hash: args.input_frame_hash,
+      governance: args.gov,
+      dvap: args.dvap,
+      outcome: args.outcome
+    });
   }
 
   private async persist(): Promise<void> {
-    await this.deps.storage.set(this.storageKey, JSON.stringify(this.state));
+    await this.deps.storage.set(this.storageKey, await sealState(this.state, this.deps.stateIntegrity));
   }
 }
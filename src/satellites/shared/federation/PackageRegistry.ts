@@ -0,0 +1,93 @@
+/* PackageRegistry.ts
+   Installed-package registry for SKILL_CAPSULE / CONFIG_BUNDLE updates:
+   version history, semver downgrade protection and the staged -> active lifecycle.
+*/
+
+import type { CanonicalActionFrame, DVAPAttestation, GovernanceDecision, UpdatePackage } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export type PackageVersionStatus = "STAGED" | "ACTIVE" | "SUPERSEDED" | "ROLLED_BACK" | "DISCARDED";
+
+/** GOV/DVAP evidence that authorized staging; reused when the version is activated. */
+export interface PackageAuthorization {
+  frame: CanonicalActionFrame;
+  input_frame_hash: string;
+  governance: GovernanceDecision;
+  dvap: DVAPAttestation | null;
+}
+
+export interface PackageVersionRecord {
+  version: string;
+  created_utc: string;
+  signer_id?: string;
+  payload_sha256: string;
+  status: PackageVersionStatus;
+  staged_utc: string;
+  activated_utc?: string;
+  authorization: PackageAuthorization;
+}
+
+export interface InstalledPackageRecord {
+  package_id: string;
+  channel: UpdatePackage["channel"];
+  active_version: string | null;
+  staged_version: string | null;
+  history: PackageVersionRecord[]; // oldest first
+}
+
+export type InstalledPackageRegistry = Record<string, InstalledPackageRecord>;
+
+/** ---------- Semver ---------- **/
+
+const SEMVER = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function isValidSemver(v: string): boolean {
+  return SEMVER.test(v);
+}
+
+/** Semver 2.0.0 precedence: -1 if a < b, 0 if equal, 1 if a > b. Build metadata is ignored. */
+export function compareSemver(a: string, b: string): number {
+  const ma = SEMVER.exec(a);
+  const mb = SEMVER.exec(b);
+  if (!ma || !mb) throw new Error(`Invalid semver: ${!ma ? a : b}`);
+
+  for (let i = 1; i <= 3; i++) {
+    const d = Number(ma[i]) - Number(mb[i]);
+    if (d !== 0) return d < 0 ? -1 : 1;
+  }
+
+  const pa = ma[4];
+  const pb = mb[4];
+  if (pa === undefined && pb === undefined) return 0;
+  if (pa === undefined) return 1;  // release > prerelease
+  if (pb === undefined) return -1;
+
+  const ia = pa.split(".");
+  const ib = pb.split(".");
+  for (let i = 0; i < Math.max(ia.length, ib.length); i++) {
+    if (ia[i] === undefined) return -1;
+    if (ib[i] === undefined) return 1;
+    const na = /^\d+$/.test(ia[i]);
+    const nb = /^\d+$/.test(ib[i]);
+    if (na && nb) {
+      const d = Number(ia[i]) - Number(ib[i]);
+      if (d !== 0) return d < 0 ? -1 : 1;
+    } else if (na !== nb) {
+      return na ? -1 : 1; // numeric identifiers sort before alphanumeric
+    } else if (ia[i] !== ib[i]) {
+      return ia[i] < ib[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/** ---------- Helpers ---------- **/
+
+export function packageStorageKey(agentId: string, packageId: string, version: string): string {
+  return `acip.kernel.pkg.${agentId}.${packageId}@${version}`;
+}
+
+export function findVersion(record: InstalledPackageRecord, version: string): PackageVersionRecord | undefined {
+  return record.history.find((h) => h.version === version);
+}
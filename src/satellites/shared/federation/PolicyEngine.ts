@@ -0,0 +1,221 @@
+/* PolicyEngine.ts
+   Declarative, deterministic GovernanceGate driven by a versioned policy document.
+   Verdicts depend only on the frame and the document (time windows read frame.timestamp_utc, never the wall clock).
+*/
+
+import { canonicalStringify, omitUndefinedMembers, sha256Hex } from "./canonical";
+import type { CanonicalActionFrame, GovernanceDecision, GovernanceGate, RiskTier, Verdict } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export type ExtensionValue = string | number | boolean;
+
+export interface ExtensionMatcher {
+  eq?: ExtensionValue;
+  in?: ExtensionValue[];
+  gte?: number;
+  lte?: number;
+  exists?: boolean;
+}
+
+export interface TimeWindow {
+  from_utc: string;     // "HH:MM", inclusive
+  to_utc: string;       // "HH:MM", exclusive; from > to wraps midnight
+  days_utc?: number[];  // 0 = Sunday ... 6 = Saturday; omitted = every day
+}
+
+export interface PolicyCondition {
+  risk_tiers?: RiskTier[];
+  operations?: string[];                        // matched against frame.extensions.operation
+  human_confirmation?: boolean;
+  extensions?: Record<string, ExtensionMatcher>;
+  time_windows?: TimeWindow[];                  // matches if the frame falls inside any window
+  invariant_keys_required?: string[];           // matches only if all keys are present in frame.extensions
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  effect: Verdict;
+  when: PolicyCondition;                        // all specified fields must match (empty = always)
+}
+
+export interface PolicyDocument {
+  policy_id: string;
+  version: string;
+  sdc_version: string;                          // must equal frame.sdc_version (manifest governance.sdc_version)
+  default_verdict: Verdict;
+  invariant_keys_required?: string[];           // enforced before any rule
+  rules: PolicyRule[];                          // first match wins
+}
+
+/** ---------- Validation ---------- **/
+
+const RISK_TIERS: RiskTier[] = ["T0_LOW", "T1_STANDARD", "T2_HIGH_STAKES", "T3_REGULATED"];
+const VERDICTS: Verdict[] = ["ALLOW", "DENY"];
+const HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === "string");
+const isExtensionValue = (v: unknown): v is ExtensionValue => ["string", "number", "boolean"].includes(typeof v);
+
+function matcherProblems(m: unknown, at: string, problems: string[]): void {
+  if (!isPlainObject(m)) {
+    problems.push(`${at} must be an object`);
+    return;
+  }
+  const unknownOps = Object.keys(m).filter((op) => !["eq", "in", "gte", "lte", "exists"].includes(op));
+  if (unknownOps.length) problems.push(`${at} has unknown matcher ${unknownOps.map((op) => `"${op}"`).join(", ")}`);
+  if (m.eq !== undefined && !isExtensionValue(m.eq)) problems.push(`${at}.eq must be a string, number or boolean`);
+  if (m.in !== undefined && !(Array.isArray(m.in) && m.in.every(isExtensionValue))) problems.push(`${at}.in must be an array of strings, numbers or booleans`);
+  if (m.gte !== undefined && typeof m.gte !== "number") problems.push(`${at}.gte must be a number`);
+  if (m.lte !== undefined && typeof m.lte !== "number") problems.push(`${at}.lte must be a number`);
+  if (m.exists !== undefined && typeof m.exists !== "boolean") problems.push(`${at}.exists must be a boolean`);
+}
+
+/** Parses and validates a policy document; throws with every problem found. */
+export function loadPolicyDocument(input: string | PolicyDocument): PolicyDocument {
+  const doc: PolicyDocument = typeof input === "string" ? JSON.parse(input) : input;
+  const problems: string[] = [];
+
+  if (!doc || typeof doc !== "object") throw new Error("Invalid policy document: not an object");
+  if (typeof doc.policy_id !== "string" || !doc.policy_id) problems.push("policy_id must be a non-empty string");
+  if (typeof doc.version !== "string" || !doc.version) problems.push("version must be a non-empty string");
+  if (typeof doc.sdc_version !== "string" || !doc.sdc_version) problems.push("sdc_version must be a non-empty string");
+  if (!VERDICTS.includes(doc.default_verdict)) problems.push("default_verdict must be ALLOW or DENY");
+  if (!Array.isArray(doc.rules)) problems.push("rules must be an array");
+
+  const ids = new Set<string>();
+  (Array.isArray(doc.rules) ? doc.rules : []).forEach((r, i) => {
+    const at = `rules[${i}]`;
+    if (typeof r?.id !== "string" || !r.id) problems.push(`${at}.id must be a non-empty string`);
+    else if (ids.has(r.id)) problems.push(`${at}.id "${r.id}" is duplicated`);
+    else ids.add(r.id);
+    if (!VERDICTS.includes(r?.effect)) problems.push(`${at}.effect must be ALLOW or DENY`);
+    if (!r?.when || typeof r.when !== "object") {
+      problems.push(`${at}.when must be an object`);
+      return;
+    }
+    const when = r.when;
+    if (when.risk_tiers !== undefined) {
+      if (!Array.isArray(when.risk_tiers)) problems.push(`${at}.when.risk_tiers must be an array`);
+      else when.risk_tiers.forEach((t) => {
+        if (!RISK_TIERS.includes(t)) problems.push(`${at}.when.risk_tiers has unknown tier "${t}"`);
+      });
+    }
+    if (when.operations !== undefined && !isStringArray(when.operations)) problems.push(`${at}.when.operations must be an array of strings`);
+    if (when.human_confirmation !== undefined && typeof when.human_confirmation !== "boolean") problems.push(`${at}.when.human_confirmation must be a boolean`);
+    if (when.invariant_keys_required !== undefined && !isStringArray(when.invariant_keys_required)) {
+      problems.push(`${at}.when.invariant_keys_required must be an array of strings`);
+    }
+    if (when.extensions !== undefined) {
+      if (!isPlainObject(when.extensions)) problems.push(`${at}.when.extensions must be an object`);
+      else Object.keys(when.extensions).forEach((k) => matcherProblems(when.extensions![k], `${at}.when.extensions.${k}`, problems));
+    }
+    if (when.time_windows !== undefined) {
+      if (!Array.isArray(when.time_windows)) problems.push(`${at}.when.time_windows must be an array`);
+      else when.time_windows.forEach((w, j) => {
+        if (!HHMM.test(w?.from_utc) || !HHMM.test(w?.to_utc)) problems.push(`${at}.when.time_windows[${j}] must use HH:MM`);
+        if (w?.days_utc !== undefined && (!Array.isArray(w.days_utc) || w.days_utc.some((d) => !Number.isInteger(d) || d < 0 || d > 6))) {
+          problems.push(`${at}.when.time_windows[${j}].days_utc must be 0-6`);
+        }
+      });
+    }
+  });
+
+  if (problems.length) throw new Error(`Invalid policy document ${doc.policy_id ?? "?"}@${doc.version ?? "?"}: ${problems.join("; ")}`);
+  return doc;
+}
+
+export function computePolicyHash(doc: PolicyDocument): Promise<string> {
+  return sha256Hex(canonicalStringify(omitUndefinedMembers(doc)));
+}
+
+/** ---------- Matching ---------- **/
+
+function minutesOf(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function inTimeWindow(ts: Date, w: TimeWindow): boolean {
+  if (w.days_utc && !w.days_utc.includes(ts.getUTCDay())) return false;
+  const now = ts.getUTCHours() * 60 + ts.getUTCMinutes();
+  const from = minutesOf(w.from_utc);
+  const to = minutesOf(w.to_utc);
+  return from <= to ? now >= from && now < to : now >= from || now < to;
+}
+
+function extensionMatches(value: ExtensionValue | undefined, m: ExtensionMatcher): boolean {
+  if (m.exists !== undefined && (value !== undefined) !== m.exists) return false;
+  if (m.eq !== undefined && value !== m.eq) return false;
+  if (m.in !== undefined && (value === undefined || !m.in.includes(value))) return false;
+  if (m.gte !== undefined && !(typeof value === "number" && value >= m.gte)) return false;
+  if (m.lte !== undefined && !(typeof value === "number" && value <= m.lte)) return false;
+  return true;
+}
+
+/** Own keys only: "constructor", "toString" etc. must not match through the prototype. */
+const hasOwn = (o: object, k: string): boolean => Object.prototype.hasOwnProperty.call(o, k);
+
+function ruleMatches(when: PolicyCondition, frame: CanonicalActionFrame): boolean {
+  const ext = frame.extensions ?? {};
+  if (when.risk_tiers && !when.risk_tiers.includes(frame.risk_tier)) return false;
+  if (when.operations && !when.operations.includes(String(ext.operation))) return false;
+  if (when.human_confirmation !== undefined && frame.human_confirmation !== when.human_confirmation) return false;
+  if (when.invariant_keys_required && !when.invariant_keys_required.every((k) => hasOwn(ext, k))) return false;
+  if (when.extensions && !Object.keys(when.extensions).every((k) => extensionMatches(hasOwn(ext, k) ? ext[k] : undefined, when.extensions![k]))) return false;
+  if (when.time_windows) {
+    const ts = new Date(frame.timestamp_utc);
+    if (isNaN(ts.getTime()) || !when.time_windows.some((w) => inTimeWindow(ts, w))) return false;
+  }
+  return true;
+}
+
+/** ---------- Engine ---------- **/
+
+export class DeclarativePolicyEngine implements GovernanceGate {
+  private readonly doc: PolicyDocument;
+  private policyHash: string | null = null;
+  private readonly invariantKeys: string[];
+
+  /**
+   * @param document policy document (JSON string or object); validated on construction
+   * @param opts.invariant_keys_required extra keys to enforce, typically manifest.governance.invariant_keys_required
+   */
+  constructor(document: string | PolicyDocument, opts: { invariant_keys_required?: string[] } = {}) {
+    this.doc = loadPolicyDocument(document);
+    this.invariantKeys = Array.from(new Set([...(this.doc.invariant_keys_required ?? []), ...(opts.invariant_keys_required ?? [])])).sort();
+  }
+
+  async getPolicyHash(): Promise<string> {
+    if (!this.policyHash) this.policyHash = await computePolicyHash(this.doc);
+    return this.policyHash;
+  }
+
+  getDocument(): PolicyDocument {
+    return this.doc;
+  }
+
+  /** Pure evaluation; identical frames always yield identical decisions. */
+  async evaluate(frame: CanonicalActionFrame): Promise<GovernanceDecision> {
+    const policy_hash = await this.getPolicyHash();
+    const deny = (reason: string): GovernanceDecision => ({ verdict: "DENY", reason, policy_hash });
+
+    if (frame.sdc_version !== this.doc.sdc_version) {
+      return deny(`SDC_VERSION_MISMATCH:${frame.sdc_version}!=${this.doc.sdc_version}`);
+    }
+
+    const ext = frame.extensions ?? {};
+    const missing = this.invariantKeys.filter((k) => !hasOwn(ext, k));
+    if (missing.length) return deny(`INVARIANT_MISSING:${missing.join(",")}`);
+
+    for (const rule of this.doc.rules) {
+      if (ruleMatches(rule.when, frame)) {
+        return { verdict: rule.effect, reason: `RULE:${rule.id}`, policy_hash };
+      }
+    }
+
+    return { verdict: this.doc.default_verdict, reason: "DEFAULT", policy_hash };
+  }
+}
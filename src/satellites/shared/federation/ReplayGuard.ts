@@ -0,0 +1,116 @@
+/* ReplayGuard.ts
+   Persisted, bounded window of seen action_ids for duplicate/replay protection.
+   Idempotent operations get their prior result back instead of a second execution.
+*/
+
+import type { StorageAdapter } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export interface ReplayPolicy {
+  ttl_ms: number;                  // how long an action_id stays in the window
+  max_entries: number;             // hard bound on window size (oldest evicted first)
+  idempotent_operations: string[]; // replays of these return the cached prior result
+}
+
+export interface SeenAction {
+  action_id: string;
+  operation: string;
+  request_hash: string;            // sha256 of canonical {action_id, operation, payload, risk_tier}
+  input_frame_hash?: string;
+  seen_ms: number;
+  status: "IN_FLIGHT" | "COMPLETED";
+  result?: { ok: boolean; result?: unknown; uva_hash?: string; input_frame_hash?: string; error?: string; source?: string };
+}
+
+export type ReplayCheck =
+  | { status: "NEW" }
+  | { status: "REPLAY"; prior: SeenAction }
+  | { status: "CACHED"; prior: SeenAction };
+
+export const DEFAULT_REPLAY_POLICY: ReplayPolicy = {
+  ttl_ms: 24 * 60 * 60 * 1000,
+  max_entries: 1000,
+  idempotent_operations: []
+};
+
+/** ---------- Guard ---------- **/
+
+export class ReplayGuard {
+  private readonly storageKey: string;
+  private window: SeenAction[] | null = null;
+  private tail: Promise<unknown> = Promise.resolve(); // serializes window mutations
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    agentId: string,
+    private readonly now: () => number = () => Date.now()
+  ) {
+    this.storageKey = `acip.kernel.replay.${agentId}`;
+  }
+
+  /**
+   * Atomically checks and reserves an action_id.
+   * NEW reserves the id as IN_FLIGHT; CACHED is only returned for a COMPLETED idempotent
+   * operation whose request_hash matches the original, anything else seen is a REPLAY.
+   */
+  checkAndReserve(args: { action_id: string; operation: string; request_hash: string }, policy: ReplayPolicy): Promise<ReplayCheck> {
+    return this.exclusive(async (window) => {
+      const prior = window.find((s) => s.action_id === args.action_id);
+      if (prior) {
+        const idempotent = policy.idempotent_operations.includes(args.operation);
+        if (idempotent && prior.status === "COMPLETED" && prior.request_hash === args.request_hash && prior.result?.ok) {
+          return { status: "CACHED", prior };
+        }
+        return { status: "REPLAY", prior };
+      }
+
+      window.push({ ...args, seen_ms: this.now(), status: "IN_FLIGHT" });
+      return { status: "NEW" };
+    }, policy);
+  }
+
+  /** Marks a reserved action as executed; the result is cached only for idempotent operations. */
+  complete(action_id: string, result: SeenAction["result"], policy: ReplayPolicy): Promise<void> {
+    return this.exclusive(async (window) => {
+      const entry = window.find((s) => s.action_id === action_id);
+      if (!entry) return;
+      entry.status = "COMPLETED";
+      entry.input_frame_hash = result?.input_frame_hash;
+      if (policy.idempotent_operations.includes(entry.operation)) entry.result = result;
+    }, policy);
+  }
+
+  /** Drops a reservation for an action that never reached execution (GOV/DVAP refusal). */
+  release(action_id: string, policy: ReplayPolicy): Promise<void> {
+    return this.exclusive(async (window) => {
+      const idx = window.findIndex((s) => s.action_id === action_id && s.status === "IN_FLIGHT");
+      if (idx >= 0) window.splice(idx, 1);
+    }, policy);
+  }
+
+  private exclusive<R>(fn: (window: SeenAction[]) => Promise<R>, policy: ReplayPolicy): Promise<R> {
+    const run = this.tail.then(async () => {
+      const window = this.prune(await this.load(), policy);
+      const out = await fn(window);
+      this.window = this.prune(window, policy);
+      await this.storage.set(this.storageKey, JSON.stringify(this.window));
+      return out;
+    });
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private prune(window: SeenAction[], policy: ReplayPolicy): SeenAction[] {
+    const cutoff = this.now() - policy.ttl_ms;
+    const live = window.filter((s) => s.seen_ms >= cutoff);
+    return live.length > policy.max_entries ? live.slice(live.length - policy.max_entries) : live;
+  }
+
+  private async load(): Promise<SeenAction[]> {
+    if (this.window) return this.window;
+    const raw = await this.storage.get(this.storageKey);
+    this.window = raw ? JSON.parse(raw) : [];
+    return this.window!;
+  }
+}
@@ -0,0 +1,197 @@
+/* ResilientFederation.ts
+   Retry with exponential backoff + jitter, per-operation timeouts and per-operation circuit breakers
+   around a FederationClient. Time is read through an injectable Clock so behaviour is testable.
+   A request's AbortSignal cancels the attempt in flight and any retry; the result is then ABORTED.
+*/
+
+import { getFederationConfig } from "../../../federation/loadConfig";
+import type { FederationClient, RiskTier } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export interface Clock {
+  now(): number;
+  /** Resolves after ms; once signal aborts the promise never settles (used to drop timeout timers). */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) =>
+    new Promise((resolve) => {
+      const t = setTimeout(resolve, ms);
+      signal?.addEventListener("abort", () => clearTimeout(t), { once: true });
+    })
+};
+
+export interface ResiliencePolicy {
+  max_attempts: number;                        // total attempts including the first
+  base_delay_ms: number;
+  max_delay_ms: number;
+  jitter_ratio: number;                        // 0..1, fraction of the delay randomized away
+  timeout_ms: number;                          // per attempt
+  operation_timeouts_ms?: Record<string, number>;
+  retryable_operations?: string[];             // omitted = every operation may retry
+  breaker_failure_threshold: number;           // consecutive failures before OPEN
+  breaker_cooldown_ms: number;                 // OPEN -> HALF_OPEN after this long
+}
+
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  max_attempts: 3,
+  base_delay_ms: 200,
+  max_delay_ms: 2000,
+  jitter_ratio: 0.5,
+  timeout_ms: getFederationConfig().FEDERATION_TIMEOUT_MS,
+  breaker_failure_threshold: 5,
+  breaker_cooldown_ms: 30000
+};
+
+export type BreakerState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+export interface FederationRequest {
+  trace_id: string;
+  agent_id: string;
+  operation: string;
+  payload: Record<string, unknown>;
+  risk_tier: RiskTier;
+  signal?: AbortSignal;
+}
+
+export interface ResilientResult<T> {
+  ok: boolean;
+  result?: T;
+  error?: string;
+  source?: string;
+  attempts: number;
+}
+
+/** ---------- Circuit breaker ---------- **/
+
+export class CircuitBreaker {
+  private state: BreakerState = "CLOSED";
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly clock: Clock) {}
+
+  /** Returns false when the call must be short-circuited. */
+  allow(policy: ResiliencePolicy): boolean {
+    if (this.state === "OPEN") {
+      if (this.clock.now() - this.openedAt < policy.breaker_cooldown_ms) return false;
+      this.state = "HALF_OPEN";
+    }
+    if (this.state === "HALF_OPEN") {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  onSuccess(): void {
+    this.state = "CLOSED";
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  onFailure(policy: ResiliencePolicy): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === "HALF_OPEN" || this.failures >= policy.breaker_failure_threshold) {
+      this.state = "OPEN";
+      this.openedAt = this.clock.now();
+    }
+  }
+
+  getState(): BreakerState {
+    return this.state;
+  }
+}
+
+/** ---------- Executor ---------- **/
+
+/** Settles with ABORTED when `signal` aborts; never settles otherwise. `cleanup` aborting detaches the listener. */
+function whenAborted(signal: AbortSignal | undefined, cleanup: AbortSignal): Promise<{ ok: false; error: string }> {
+  return new Promise((resolve) => {
+    if (!signal) return;
+    const onAbort = () => resolve({ ok: false, error: "ABORTED" });
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    cleanup.addEventListener("abort", () => signal.removeEventListener("abort", onAbort), { once: true });
+  });
+}
+
+export class ResilientFederationExecutor {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+
+  constructor(
+    private readonly client: FederationClient,
+    private readonly clock: Clock = systemClock,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  async execute<T>(req: FederationRequest, policy: ResiliencePolicy = DEFAULT_RESILIENCE_POLICY): Promise<ResilientResult<T>> {
+    const breaker = this.breakerFor(req.operation);
+    const timeout = policy.operation_timeouts_ms?.[req.operation] ?? policy.timeout_ms;
+    const retryable = !policy.retryable_operations || policy.retryable_operations.includes(req.operation);
+    const maxAttempts = retryable ? Math.max(1, policy.max_attempts) : 1;
+
+    let last: { error?: string; source?: string } = {};
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (req.signal?.aborted) return { ok: false, error: "ABORTED", source: last.source, attempts: attempt - 1 };
+      if (!breaker.allow(policy)) {
+        return { ok: false, error: "CIRCUIT_OPEN", attempts: attempt - 1 };
+      }
+
+      const res = await this.attempt<T>(req, timeout);
+      if (res.ok) {
+        breaker.onSuccess();
+        return { ...res, attempts: attempt };
+      }
+
+      // A cancelled attempt says nothing about the operation's health.
+      if (req.signal?.aborted) return { ok: false, error: "ABORTED", source: res.source, attempts: attempt };
+      breaker.onFailure(policy);
+      last = res;
+      if (attempt < maxAttempts) {
+        const cancel = new AbortController();
+        await Promise.race([this.clock.sleep(this.backoff(attempt, policy), cancel.signal), whenAborted(req.signal, cancel.signal)]);
+        cancel.abort();
+      }
+    }
+
+    return { ok: false, error: last.error ?? "FEDERATION_ERROR", source: last.source, attempts: maxAttempts };
+  }
+
+  getBreakerState(operation: string): BreakerState {
+    return this.breakers.get(operation)?.getState() ?? "CLOSED";
+  }
+
+  private async attempt<T>(req: FederationRequest, timeoutMs: number): Promise<{ ok: boolean; result?: T; error?: string; source?: string }> {
+    const cancel = new AbortController();
+    const timer = this.clock.sleep(timeoutMs, cancel.signal).then(() => ({ ok: false, error: "FEDERATION_TIMEOUT" }));
+    try {
+      return await Promise.race([this.client.request<T>(req), timer, whenAborted(req.signal, cancel.signal)]);
+    } catch (e) {
+      return { ok: false, error: (e as Error)?.message ?? "FEDERATION_ERROR" };
+    } finally {
+      cancel.abort();
+    }
+  }
+
+  /** Exponential backoff capped at max_delay_ms, with up to jitter_ratio of it randomized away. */
+  private backoff(attempt: number, policy: ResiliencePolicy): number {
+    const exp = Math.min(policy.max_delay_ms, policy.base_delay_ms * 2 ** (attempt - 1));
+    const jitter = Math.min(1, Math.max(0, policy.jitter_ratio));
+    return Math.round(exp * (1 - jitter * this.random()));
+  }
+
+  private breakerFor(operation: string): CircuitBreaker {
+    let b = this.breakers.get(operation);
+    if (!b) {
+      b = new CircuitBreaker(this.clock);
+      this.breakers.set(operation, b);
+    }
+    return b;
+  }
+}
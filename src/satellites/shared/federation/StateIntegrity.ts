@@ -0,0 +1,71 @@
+/* StateIntegrity.ts
+   Sealing for PersistedKernelState: an HMAC-SHA256 (keyed) or SHA-256 checksum (unkeyed) over the
+   canonical state, verified on boot before anything in the state is trusted.
+*/
+
+import { canonicalStringify, hmacSha256Hex, omitUndefinedMembers, sha256Hex, timingSafeEqualHex } from "./canonical";
+import type { PersistedKernelState } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export interface SealedKernelState {
+  sealed_v: 1;
+  alg: "HMAC-SHA256" | "SHA-256";
+  mac: string;
+  state: PersistedKernelState;
+}
+
+export interface StateIntegrityOptions {
+  hmac_key?: string;               // without a key only accidental corruption is detected, not edits
+  allow_unsealed_legacy?: boolean; // accept a pre-seal raw state once (it is re-sealed on boot); default true without a key
+}
+
+export type UnsealResult =
+  | { ok: true; state: PersistedKernelState; legacy: boolean }
+  | { ok: false; reason: "UNPARSEABLE" | "UNSEALED_STATE_REJECTED" | "SEAL_ALGORITHM_MISMATCH" | "MAC_MISMATCH" | "MALFORMED_STATE" };
+
+/** ---------- Seal / Unseal ---------- **/
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function macFor(state: PersistedKernelState, opts: StateIntegrityOptions): Promise<string> {
+  const canonical = canonicalStringify(omitUndefinedMembers(state));
+  return opts.hmac_key ? hmacSha256Hex(opts.hmac_key, canonical) : sha256Hex(canonical);
+}
+
+export async function sealState(state: PersistedKernelState, opts: StateIntegrityOptions = {}): Promise<string> {
+  const sealed: SealedKernelState = {
+    sealed_v: 1,
+    alg: opts.hmac_key ? "HMAC-SHA256" : "SHA-256",
+    mac: await macFor(state, opts),
+    state
+  };
+  return JSON.stringify(sealed);
+}
+
+export async function unsealState(raw: string, opts: StateIntegrityOptions = {}): Promise<UnsealResult> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, reason: "UNPARSEABLE" };
+  }
+  if (!isRecord(parsed)) return { ok: false, reason: "MALFORMED_STATE" };
+
+  if (parsed.sealed_v === undefined) {
+    const allowLegacy = opts.allow_unsealed_legacy ?? !opts.hmac_key;
+    if (!allowLegacy) return { ok: false, reason: "UNSEALED_STATE_REJECTED" };
+    if (!isRecord(parsed.manifest)) return { ok: false, reason: "MALFORMED_STATE" };
+    return { ok: true, state: parsed as unknown as PersistedKernelState, legacy: true };
+  }
+
+  const { alg, mac, state } = parsed;
+  if (!isRecord(state) || typeof mac !== "string") return { ok: false, reason: "MALFORMED_STATE" };
+  // A keyed kernel never accepts an unkeyed checksum (that would let anyone re-seal an edited state).
+  if (alg !== (opts.hmac_key ? "HMAC-SHA256" : "SHA-256")) return { ok: false, reason: "SEAL_ALGORITHM_MISMATCH" };
+  // Typed for macFor only; nothing reads it before the MAC verifies.
+  const sealedState = state as unknown as PersistedKernelState;
+  if (!timingSafeEqualHex(await macFor(sealedState, opts), mac)) return { ok: false, reason: "MAC_MISMATCH" };
+
+  return { ok: true, state: sealedState, legacy: false };
+}
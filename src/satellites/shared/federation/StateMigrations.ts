@@ -0,0 +1,62 @@
+/* StateMigrations.ts
+   Registered, ordered schema migrations for PersistedKernelState.
+   Each step moves state_schema_version forward by exactly one registered edge.
+*/
+
+import type { PersistedKernelState } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export interface StateMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate(state: Record<string, unknown>): Record<string, unknown>; // receives a deep copy; must return the state at `to`
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** Schema written by this kernel build. */
+export const KERNEL_STATE_SCHEMA_VERSION = "1.1.0";
+
+/** States written before state_schema_version existed are treated as 1.0.0. */
+export const LEGACY_STATE_SCHEMA_VERSION = "1.0.0";
+
+export const BUILTIN_STATE_MIGRATIONS: StateMigration[] = [
+  {
+    from: "1.0.0",
+    to: "1.1.0",
+    description: "Add state_schema_version and installed package registry",
+    migrate: (s) => ({ ...s, installed_packages: s.installed_packages ?? {}, state_schema_version: "1.1.0" })
+  }
+];
+
+/** ---------- Runner ---------- **/
+
+export function migrateState(
+  input: PersistedKernelState,
+  migrations: StateMigration[] = BUILTIN_STATE_MIGRATIONS,
+  target: string = KERNEL_STATE_SCHEMA_VERSION
+): { state: PersistedKernelState; from: string; applied: string[] } {
+  const from = input.state_schema_version ?? LEGACY_STATE_SCHEMA_VERSION;
+  let state: Record<string, unknown> = JSON.parse(JSON.stringify(input));
+  let version = from;
+  const applied: string[] = [];
+
+  while (version !== target) {
+    const step = migrations.find((m) => m.from === version);
+    if (!step) throw new Error(`No state migration registered from ${version} (target ${target})`);
+    if (applied.length > migrations.length) throw new Error(`State migration cycle detected at ${version}`);
+
+    const next: unknown = step.migrate(JSON.parse(JSON.stringify(state)));
+    if (!isRecord(next) || next.state_schema_version !== step.to) {
+      throw new Error(`State migration ${step.from}->${step.to} did not set state_schema_version`);
+    }
+    state = next;
+    applied.push(`${step.from}->${step.to}`);
+    version = step.to;
+  }
+
+  // Trusted only as far as boot's checks that follow (manifest agent_id); migrations themselves never see this type.
+  return { state: state as unknown as PersistedKernelState, from, applied };
+}
@@ -0,0 +1,155 @@
+/* UpdateSigning.ts
+   Signing scheme for UpdatePackage: Ed25519 or ECDSA P-256 over a canonical package digest.
+   Signer keys are resolved from trusted_signers fingerprints through a local keyring.
+   ECDSA signatures are IEEE P1363 (r||s), the only encoding WebCrypto produces and accepts.
+*/
+
+import { canonicalStringify, sha256Hex } from "./canonical";
+import { getCryptoProvider, SignatureAlgorithm } from "./isoCrypto";
+import type { UpdatePackage } from "./FederatedCapabilityKernel";
+
+/** ---------- Types ---------- **/
+
+export type { SignatureAlgorithm };
+export type SignerStatus = "ACTIVE" | "ROTATED" | "REVOKED";
+
+export interface KeyringEntry {
+  fingerprint: string;          // sha256 hex of the SPKI DER public key; this is the signer_id
+  algorithm: SignatureAlgorithm;
+  public_key_pem: string;
+  status: SignerStatus;
+  rotated_to?: string;          // successor fingerprint when status is ROTATED
+  revoked_reason?: string;
+}
+
+export type SignatureErrorCode =
+  | "SIGNATURE_MISSING"
+  | "SIGNER_NOT_TRUSTED"
+  | "SIGNER_UNKNOWN"
+  | "SIGNER_ROTATED"
+  | "SIGNER_REVOKED"
+  | "KEY_ALGORITHM_MISMATCH"
+  | "SIGNATURE_INVALID";
+
+export type SignatureVerification = { ok: true; fingerprint: string } | { ok: false; error: SignatureErrorCode; detail?: string };
+
+export interface SignerKeyring {
+  resolve(fingerprint: string): KeyringEntry | null;
+}
+
+/** ---------- Digest ---------- **/
+
+const UPDATE_SIGNING_DOMAIN = "ACIP_UPDATE_PACKAGE_V1";
+
+/** Canonical digest of package metadata + payload; signature_b64 is the only excluded field. */
+export function computeUpdatePackageDigest(pkg: UpdatePackage): Promise<string> {
+  return sha256Hex(canonicalStringify({
+    domain: UPDATE_SIGNING_DOMAIN,
+    package_id: pkg.package_id,
+    channel: pkg.channel,
+    version: pkg.version,
+    created_utc: pkg.created_utc,
+    signer_id: pkg.signer_id ?? null,
+    payload_b64: pkg.payload_b64
+  }));
+}
+
+export function computeKeyFingerprint(publicKeyPem: string): Promise<string> {
+  return getCryptoProvider().publicKeyFingerprint(publicKeyPem);
+}
+
+async function keyMatchesAlgorithm(publicKeyPem: string, algorithm: SignatureAlgorithm): Promise<boolean> {
+  try {
+    await getCryptoProvider().assertPublicKey(algorithm, publicKeyPem);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** ---------- Keyring ---------- **/
+
+export class LocalKeyring implements SignerKeyring {
+  private readonly entries = new Map<string, KeyringEntry>();
+
+  constructor(entries: KeyringEntry[] = []) {
+    entries.forEach((e) => this.entries.set(e.fingerprint, { ...e }));
+  }
+
+  /** Adds an ACTIVE key; returns its fingerprint (the signer_id to list in trusted_signers). */
+  async addKey(publicKeyPem: string, algorithm: SignatureAlgorithm): Promise<string> {
+    if (!(await keyMatchesAlgorithm(publicKeyPem, algorithm))) {
+      throw new Error(`Public key does not match algorithm ${algorithm}`);
+    }
+    const fingerprint = await computeKeyFingerprint(publicKeyPem);
+    this.entries.set(fingerprint, { fingerprint, algorithm, public_key_pem: publicKeyPem, status: "ACTIVE" });
+    return fingerprint;
+  }
+
+  /** Retires a key in favour of a new one; packages signed by the old key are rejected from now on. */
+  async rotate(fingerprint: string, nextPublicKeyPem: string, nextAlgorithm: SignatureAlgorithm): Promise<string> {
+    const current = this.entries.get(fingerprint);
+    if (!current) throw new Error(`Unknown signer ${fingerprint}`);
+    const next = await this.addKey(nextPublicKeyPem, nextAlgorithm);
+    this.entries.set(fingerprint, { ...current, status: "ROTATED", rotated_to: next });
+    return next;
+  }
+
+  revoke(fingerprint: string, reason?: string): void {
+    const current = this.entries.get(fingerprint);
+    if (!current) throw new Error(`Unknown signer ${fingerprint}`);
+    this.entries.set(fingerprint, { ...current, status: "REVOKED", revoked_reason: reason });
+  }
+
+  resolve(fingerprint: string): KeyringEntry | null {
+    const e = this.entries.get(fingerprint);
+    return e ? { ...e } : null;
+  }
+
+  list(): KeyringEntry[] {
+    return Array.from(this.entries.values()).map((e) => ({ ...e }));
+  }
+}
+
+/** ---------- Sign / Verify ---------- **/
+
+/** Companion signer: returns a copy of the package with signer_id and signature_b64 populated. */
+export async function signUpdatePackage(
+  pkg: UpdatePackage,
+  signer: { private_key_pem: string; algorithm: SignatureAlgorithm }
+): Promise<UpdatePackage> {
+  const provider = getCryptoProvider();
+  let publicKeyPem: string;
+  try {
+    publicKeyPem = await provider.publicKeyFromPrivate(signer.algorithm, signer.private_key_pem);
+  } catch {
+    throw new Error(`Private key does not match algorithm ${signer.algorithm}`);
+  }
+
+  const signed: UpdatePackage = { ...pkg, signer_id: await computeKeyFingerprint(publicKeyPem) };
+  delete signed.signature_b64;
+  const digest = await computeUpdatePackageDigest(signed);
+  return { ...signed, signature_b64: await provider.sign(signer.algorithm, signer.private_key_pem, digest) };
+}
+
+export async function verifyUpdatePackageSignature(
+  pkg: UpdatePackage,
+  trustedSigners: string[],
+  keyring: SignerKeyring
+): Promise<SignatureVerification> {
+  if (!pkg.signature_b64 || !pkg.signer_id) return { ok: false, error: "SIGNATURE_MISSING" };
+  if (!trustedSigners.includes(pkg.signer_id)) return { ok: false, error: "SIGNER_NOT_TRUSTED" };
+
+  const entry = keyring.resolve(pkg.signer_id);
+  if (!entry) return { ok: false, error: "SIGNER_UNKNOWN" };
+  if (entry.status === "REVOKED") return { ok: false, error: "SIGNER_REVOKED", detail: entry.revoked_reason };
+  if (entry.status === "ROTATED") return { ok: false, error: "SIGNER_ROTATED", detail: entry.rotated_to };
+
+  if (!(await keyMatchesAlgorithm(entry.public_key_pem, entry.algorithm)) || (await computeKeyFingerprint(entry.public_key_pem)) !== entry.fingerprint) {
+    return { ok: false, error: "KEY_ALGORITHM_MISMATCH" };
+  }
+
+  const digest = await computeUpdatePackageDigest(pkg);
+  const valid = await getCryptoProvider().verify(entry.algorithm, entry.public_key_pem, digest, pkg.signature_b64);
+  return valid ? { ok: true, fingerprint: entry.fingerprint } : { ok: false, error: "SIGNATURE_INVALID" };
+}
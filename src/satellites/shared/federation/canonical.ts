@@ -0,0 +1,115 @@
+/* canonical.ts
+   Deterministic serialization + hashing primitives shared by the kernel and its evidence plane.
+   canonicalStringify implements the JSON Canonicalization Scheme (RFC 8785), so hashes match DVAP
+   attestors in other languages. Hashing goes through the active isomorphic CryptoProvider (async).
+*/
+
+import { getCryptoProvider, timingSafeEqualHex } from "./isoCrypto";
+
+export { timingSafeEqualHex };
+
+export function isoNowUTC(): string {
+  return new Date().toISOString();
+}
+
+export function sha256Hex(input: string): Promise<string> {
+  return getCryptoProvider().sha256Hex(input);
+}
+
+export function hmacSha256Hex(key: string, input: string): Promise<string> {
+  return getCryptoProvider().hmacSha256Hex(key, input);
+}
+
+/** ---------- RFC 8785 ---------- **/
+
+/** Thrown for input that has no JCS representation; `path` points at the offending value (e.g. "$.a[2]"). */
+export class CanonicalizationError extends Error {
+  constructor(message: string, readonly path: string) {
+    super(`${message} at ${path}`);
+    this.name = "CanonicalizationError";
+  }
+}
+
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+// ECMAScript string serialization is what RFC 8785 prescribes, but only for well-formed (I-JSON) strings.
+function serializeString(s: string, path: string): string {
+  if (LONE_SURROGATE.test(s)) throw new CanonicalizationError("Lone surrogate in string", path);
+  return JSON.stringify(s);
+}
+
+function pathOf(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * RFC 8785 canonical JSON: members sorted by UTF-16 code units, ECMAScript number and string serialization,
+ * no insignificant whitespace. Throws CanonicalizationError for non-finite numbers, undefined, functions,
+ * symbols, bigints, lone surrogates and cycles instead of silently dropping or nulling them.
+ */
+export function canonicalStringify(value: unknown): string {
+  const ancestors = new Set<object>();
+
+  const write = (v: unknown, path: string): string => {
+    if (v === null) return "null";
+    switch (typeof v) {
+      case "boolean":
+        return v ? "true" : "false";
+      case "number":
+        if (!Number.isFinite(v)) throw new CanonicalizationError(`Non-finite number ${v}`, path);
+        return JSON.stringify(v); // Number::toString; -0 serializes as 0
+      case "string":
+        return serializeString(v, path);
+      case "undefined":
+        throw new CanonicalizationError("Undefined value", path);
+      case "object":
+        break;
+      default:
+        throw new CanonicalizationError(`Unsupported ${typeof v} value`, path);
+    }
+
+    const obj = v as Record<string, unknown> & { toJSON?: () => unknown };
+    if (typeof obj.toJSON === "function") return write(obj.toJSON(), path);
+    if (ancestors.has(obj)) throw new CanonicalizationError("Cyclic reference", path);
+    ancestors.add(obj);
+    try {
+      if (Array.isArray(obj)) return `[${obj.map((item, i) => write(item, pathOf(path, i))).join(",")}]`;
+      // Default sort compares UTF-16 code units, which is exactly the RFC 8785 member order.
+      const members = Object.keys(obj).sort().map((k) => {
+        const at = pathOf(path, k);
+        return `${serializeString(k, at)}:${write(obj[k], at)}`;
+      });
+      return `{${members.join(",")}}`;
+    } finally {
+      ancestors.delete(obj);
+    }
+  };
+
+  return write(value, "$");
+}
+
+/**
+ * Drops object members whose value is undefined, recursively. Use for records that are persisted as JSON
+ * (where such members vanish anyway) before hashing; undefined array items and NaN are still rejected.
+ */
+export function omitUndefinedMembers<T>(value: T): T {
+  const ancestors = new Set<object>();
+  const strip = (v: unknown): unknown => {
+    // Cycles are left in place so canonicalStringify reports them with a path.
+    if (!v || typeof v !== "object" || typeof (v as { toJSON?: unknown }).toJSON === "function" || ancestors.has(v)) return v;
+    ancestors.add(v);
+    try {
+      if (Array.isArray(v)) return v.map(strip);
+      const out: Record<string, unknown> = {};
+      Object.keys(v).forEach((k) => {
+        const member = (v as Record<string, unknown>)[k];
+        if (member !== undefined) out[k] = strip(member);
+      });
+      return out;
+    } finally {
+      ancestors.delete(v);
+    }
+  };
+  return strip(value) as T;
+}
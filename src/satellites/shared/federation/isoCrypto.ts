@@ -0,0 +1,142 @@
+/* isoCrypto.ts
+   Isomorphic hashing + signing for the kernel. WebCrypto is the default (browsers, Node >= 19);
+   servers may register the Node crypto provider from ./nodeCryptoProvider. Both produce identical bytes:
+   hex digests, base64 signatures, ECDSA signatures in IEEE P1363 (r||s) form.
+*/
+
+/** ---------- Types ---------- **/
+
+export type SignatureAlgorithm = "ED25519" | "ECDSA_P256";
+
+export interface CryptoProvider {
+  readonly name: string;
+  sha256Hex(input: string): Promise<string>;
+  hmacSha256Hex(key: string, input: string): Promise<string>;
+  /** Signs utf8(message); returns base64. */
+  sign(algorithm: SignatureAlgorithm, privateKeyPem: string, message: string): Promise<string>;
+  verify(algorithm: SignatureAlgorithm, publicKeyPem: string, message: string, signatureB64: string): Promise<boolean>;
+  /** SPKI PEM public key for a PKCS#8 PEM private key; throws if the key is not of `algorithm`. */
+  publicKeyFromPrivate(algorithm: SignatureAlgorithm, privateKeyPem: string): Promise<string>;
+  /** Throws if the SPKI PEM is not a key of `algorithm`. */
+  assertPublicKey(algorithm: SignatureAlgorithm, publicKeyPem: string): Promise<void>;
+  /** sha256 hex of the SPKI DER encoding. */
+  publicKeyFingerprint(publicKeyPem: string): Promise<string>;
+}
+
+/** ---------- Encoding helpers ---------- **/
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let out = "";
+  bytes.forEach((b) => (out += b.toString(16).padStart(2, "0")));
+  return out;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin);
+}
+
+export function base64ToBytes(b64: string): Uint8Array {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+export function pemToDer(pem: string): Uint8Array {
+  return base64ToBytes(pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, "").replace(/\s+/g, ""));
+}
+
+export function derToPem(der: Uint8Array, label: "PUBLIC KEY" | "PRIVATE KEY"): string {
+  const b64 = bytesToBase64(der).replace(/(.{64})/g, "$1\n").replace(/\n$/, "");
+  return `-----BEGIN ${label}-----\n${b64}\n-----END ${label}-----\n`;
+}
+
+/** Constant-time comparison for hex digests/MACs. */
+export function timingSafeEqualHex(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// WebCrypto typings want ArrayBuffer-backed views; copying also detaches us from caller buffers.
+function buf(bytes: Uint8Array): ArrayBuffer {
+  return new Uint8Array(bytes).buffer as ArrayBuffer;
+}
+
+/** ---------- WebCrypto provider ---------- **/
+
+const utf8 = new TextEncoder();
+
+function webAlgorithm(algorithm: SignatureAlgorithm): { importParams: EcKeyImportParams | Algorithm; signParams: EcdsaParams | Algorithm } {
+  return algorithm === "ED25519"
+    ? { importParams: { name: "Ed25519" }, signParams: { name: "Ed25519" } }
+    : { importParams: { name: "ECDSA", namedCurve: "P-256" } as EcKeyImportParams, signParams: { name: "ECDSA", hash: "SHA-256" } as EcdsaParams };
+}
+
+export function createWebCryptoProvider(subtle: SubtleCrypto = globalThis.crypto?.subtle): CryptoProvider {
+  if (!subtle) throw new Error("WebCrypto (crypto.subtle) is not available in this runtime");
+
+  const importPublic = (algorithm: SignatureAlgorithm, pem: string) =>
+    subtle.importKey("spki", buf(pemToDer(pem)), webAlgorithm(algorithm).importParams, true, ["verify"]);
+
+  return {
+    name: "webcrypto",
+
+    async sha256Hex(input) {
+      return bytesToHex(new Uint8Array(await subtle.digest("SHA-256", utf8.encode(input))));
+    },
+
+    async hmacSha256Hex(key, input) {
+      const k = await subtle.importKey("raw", utf8.encode(key), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+      return bytesToHex(new Uint8Array(await subtle.sign("HMAC", k, utf8.encode(input))));
+    },
+
+    async sign(algorithm, privateKeyPem, message) {
+      const { importParams, signParams } = webAlgorithm(algorithm);
+      const key = await subtle.importKey("pkcs8", buf(pemToDer(privateKeyPem)), importParams, false, ["sign"]);
+      return bytesToBase64(new Uint8Array(await subtle.sign(signParams, key, utf8.encode(message))));
+    },
+
+    async verify(algorithm, publicKeyPem, message, signatureB64) {
+      try {
+        const key = await importPublic(algorithm, publicKeyPem);
+        return await subtle.verify(webAlgorithm(algorithm).signParams, key, buf(base64ToBytes(signatureB64)), utf8.encode(message));
+      } catch {
+        return false;
+      }
+    },
+
+    async publicKeyFromPrivate(algorithm, privateKeyPem) {
+      // PKCS#8 -> JWK carries the public coordinates; drop the private part and re-import as public.
+      const priv = await subtle.importKey("pkcs8", buf(pemToDer(privateKeyPem)), webAlgorithm(algorithm).importParams, true, ["sign"]);
+      const { d: _d, key_ops: _ops, ...jwk } = await subtle.exportKey("jwk", priv);
+      const pub = await subtle.importKey("jwk", jwk, webAlgorithm(algorithm).importParams, true, ["verify"]);
+      return derToPem(new Uint8Array(await subtle.exportKey("spki", pub)), "PUBLIC KEY");
+    },
+
+    async assertPublicKey(algorithm, publicKeyPem) {
+      await importPublic(algorithm, publicKeyPem);
+    },
+
+    async publicKeyFingerprint(publicKeyPem) {
+      return bytesToHex(new Uint8Array(await subtle.digest("SHA-256", buf(pemToDer(publicKeyPem)))));
+    }
+  };
+}
+
+/** ---------- Registry ---------- **/
+
+let provider: CryptoProvider | null = null;
+
+/** Active provider; WebCrypto unless a server registered another one. */
+export function getCryptoProvider(): CryptoProvider {
+  if (!provider) provider = createWebCryptoProvider();
+  return provider;
+}
+
+export function setCryptoProvider(next: CryptoProvider): void {
+  provider = next;
+}
@@ -0,0 +1,131 @@
+/* jcsVectors.ts
+   JSON Canonicalization Scheme (RFC 8785) vectors for canonicalStringify: the published examples from
+   the RFC (sections 3.2.2, 3.2.3 and appendix B) plus the reference implementation's test data.
+   DVAP attestors in other languages run the same vectors, so a pass here means interoperable hashes.
+*/
+
+import { CanonicalizationError, canonicalStringify } from "./canonical";
+import type { ConformanceCheck, ConformanceReport } from "./storage/conformance";
+
+/** ---------- Vectors ---------- **/
+
+/** JSON text in, canonical text out. Inputs are parsed first, as a verifier receiving them would. */
+export const JCS_DOCUMENT_VECTORS: { name: string; input: string; canonical: string }[] = [
+  {
+    name: "rfc8785 3.2.2 values",
+    input: String.raw`{"numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001], "string": "\u20ac$\u000F\u000aA'\u0042\u0022\u005c\\\"\/", "literals": [null, true, false]}`,
+    canonical: String.raw`{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],"string":"€$\u000f\nA'B\"\\\\\"/"}`
+  },
+  {
+    name: "rfc8785 3.2.3 sorting",
+    input: String.raw`{"€": "Euro Sign", "\r": "Carriage Return", "דּ": "Hebrew Letter Dalet With Dagesh", "1": "One", "😀": "Emoji: Grinning Face", "\u0080": "Control", "ö": "Latin Small Letter O With Diaeresis"}`,
+    canonical:
+      '{"\\r":"Carriage Return","1":"One","\u0080":"Control","ö":"Latin Small Letter O With Diaeresis","€":"Euro Sign","😀":"Emoji: Grinning Face","דּ":"Hebrew Letter Dalet With Dagesh"}'
+  },
+  {
+    name: "arrays",
+    input: `[56, {"d": true, "10": null, "1": [ ]}]`,
+    canonical: `[56,{"1":[],"10":null,"d":true}]`
+  },
+  {
+    name: "structures",
+    input: String.raw`{"1": {"f": {"f": "hi", "F": 5}, "\n": 56.0}, "10": {}, "": "empty", "a": {}, "111": [{"e": "yes", "E": "no"}], "A": {}}`,
+    canonical: String.raw`{"":"empty","1":{"\n":56,"f":{"F":5,"f":"hi"}},"10":{},"111":[{"E":"no","e":"yes"}],"A":{},"a":{}}`
+  },
+  {
+    name: "unicode is not normalized",
+    input: String.raw`{"Unnormalized Unicode": "Å"}`,
+    canonical: '{"Unnormalized Unicode":"Å"}'
+  }
+];
+
+/** RFC 8785 appendix B: IEEE-754 bit pattern -> canonical number text. */
+export const JCS_NUMBER_VECTORS: { ieee_hex: string; canonical: string }[] = [
+  { ieee_hex: "0000000000000000", canonical: "0" },
+  { ieee_hex: "8000000000000000", canonical: "0" },
+  { ieee_hex: "0000000000000001", canonical: "5e-324" },
+  { ieee_hex: "8000000000000001", canonical: "-5e-324" },
+  { ieee_hex: "7fefffffffffffff", canonical: "1.7976931348623157e+308" },
+  { ieee_hex: "ffefffffffffffff", canonical: "-1.7976931348623157e+308" },
+  { ieee_hex: "4340000000000000", canonical: "9007199254740992" },
+  { ieee_hex: "c340000000000000", canonical: "-9007199254740992" },
+  { ieee_hex: "4430000000000000", canonical: "295147905179352830000" },
+  { ieee_hex: "44b52d02c7e14af5", canonical: "9.999999999999997e+22" },
+  { ieee_hex: "44b52d02c7e14af6", canonical: "1e+23" },
+  { ieee_hex: "44b52d02c7e14af7", canonical: "1.0000000000000001e+23" },
+  { ieee_hex: "444b1ae4d6e2ef4e", canonical: "999999999999999700000" },
+  { ieee_hex: "444b1ae4d6e2ef4f", canonical: "999999999999999900000" },
+  { ieee_hex: "444b1ae4d6e2ef50", canonical: "1e+21" },
+  { ieee_hex: "3eb0c6f7a0b5ed8c", canonical: "9.999999999999997e-7" },
+  { ieee_hex: "3eb0c6f7a0b5ed8d", canonical: "0.000001" },
+  { ieee_hex: "41b3de4355555553", canonical: "333333333.3333332" },
+  { ieee_hex: "41b3de4355555554", canonical: "333333333.33333325" },
+  { ieee_hex: "41b3de4355555555", canonical: "333333333.3333333" },
+  { ieee_hex: "41b3de4355555556", canonical: "333333333.3333334" },
+  { ieee_hex: "41b3de4355555557", canonical: "333333333.33333343" },
+  { ieee_hex: "becbf647612f3696", canonical: "-0.0000033333333333333333" },
+  { ieee_hex: "43143ff3c1cb0959", canonical: "1424953923781206.2" }
+];
+
+/** Inputs with no canonical form; each must throw CanonicalizationError at `path`. */
+export function jcsRejectionVectors(): { name: string; input: unknown; path: string }[] {
+  const cyclic: Record<string, unknown> = { a: [1] };
+  (cyclic.a as unknown[]).push(cyclic);
+  return [
+    { name: "NaN", input: { n: NaN }, path: "$.n" },
+    { name: "Infinity", input: [1, -Infinity], path: "$[1]" },
+    { name: "undefined member", input: { a: { b: undefined } }, path: "$.a.b" },
+    { name: "undefined array item", input: [undefined], path: "$[0]" },
+    { name: "cycle", input: cyclic, path: "$.a[1]" },
+    { name: "lone surrogate", input: { s: "\ud800x" }, path: "$.s" },
+    { name: "bigint", input: { big: BigInt(1) }, path: "$.big" }
+  ];
+}
+
+/** ---------- Runner ---------- **/
+
+function ieeeFromHex(hex: string): number {
+  const view = new DataView(new ArrayBuffer(8));
+  for (let i = 0; i < 8; i++) view.setUint8(i, parseInt(hex.slice(i * 2, i * 2 + 2), 16));
+  return view.getFloat64(0);
+}
+
+function check(name: string, fn: () => void): ConformanceCheck {
+  try {
+    fn();
+    return { name, ok: true };
+  } catch (e) {
+    return { name, ok: false, detail: (e as Error)?.message ?? String(e) };
+  }
+}
+
+function expectEqual(actual: unknown, expected: unknown, what: string): void {
+  if (actual !== expected) throw new Error(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+}
+
+export function runJcsVectors(canonicalize: (value: unknown) => string = canonicalStringify): ConformanceReport {
+  const checks: ConformanceCheck[] = [];
+
+  JCS_DOCUMENT_VECTORS.forEach((v) => {
+    checks.push(check(v.name, () => expectEqual(canonicalize(JSON.parse(v.input)), v.canonical, "canonical")));
+  });
+
+  JCS_NUMBER_VECTORS.forEach((v) => {
+    checks.push(check(`number ${v.ieee_hex}`, () => expectEqual(canonicalize(ieeeFromHex(v.ieee_hex)), v.canonical, "canonical")));
+  });
+
+  jcsRejectionVectors().forEach((v) => {
+    checks.push(check(`rejects ${v.name}`, () => {
+      try {
+        canonicalize(v.input);
+      } catch (e) {
+        if (!(e instanceof CanonicalizationError)) throw e;
+        expectEqual(e.path, v.path, "error path");
+        return;
+      }
+      throw new Error("accepted input with no canonical form");
+    }));
+  });
+
+  return { ok: checks.every((c) => c.ok), checks };
+}
@@ -0,0 +1,64 @@
+/* nodeCryptoProvider.ts
+   Server-side CryptoProvider backed by Node's crypto module. Register it with setCryptoProvider() on
+   runtimes without WebCrypto; never import this file from browser code.
+*/
+
+import crypto from "crypto";
+import type { CryptoProvider, SignatureAlgorithm } from "./isoCrypto";
+
+function keyMatchesAlgorithm(key: crypto.KeyObject, algorithm: SignatureAlgorithm): boolean {
+  if (algorithm === "ED25519") return key.asymmetricKeyType === "ed25519";
+  return key.asymmetricKeyType === "ec" && key.asymmetricKeyDetails?.namedCurve === "prime256v1";
+}
+
+function assertKey(key: crypto.KeyObject, algorithm: SignatureAlgorithm): crypto.KeyObject {
+  if (!keyMatchesAlgorithm(key, algorithm)) throw new Error(`Key does not match algorithm ${algorithm}`);
+  return key;
+}
+
+// Ed25519 signs the message directly; ECDSA P-256 hashes with SHA-256 and uses r||s like WebCrypto.
+function signOptions(algorithm: SignatureAlgorithm): { digest: string | null; dsaEncoding?: "ieee-p1363" } {
+  return algorithm === "ED25519" ? { digest: null } : { digest: "sha256", dsaEncoding: "ieee-p1363" };
+}
+
+export const nodeCryptoProvider: CryptoProvider = {
+  name: "node",
+
+  async sha256Hex(input) {
+    return crypto.createHash("sha256").update(input, "utf8").digest("hex");
+  },
+
+  async hmacSha256Hex(key, input) {
+    return crypto.createHmac("sha256", key).update(input, "utf8").digest("hex");
+  },
+
+  async sign(algorithm, privateKeyPem, message) {
+    const key = assertKey(crypto.createPrivateKey(privateKeyPem), algorithm);
+    const { digest, dsaEncoding } = signOptions(algorithm);
+    return crypto.sign(digest, Buffer.from(message, "utf8"), { key, dsaEncoding }).toString("base64");
+  },
+
+  async verify(algorithm, publicKeyPem, message, signatureB64) {
+    try {
+      const key = assertKey(crypto.createPublicKey(publicKeyPem), algorithm);
+      const { digest, dsaEncoding } = signOptions(algorithm);
+      return crypto.verify(digest, Buffer.from(message, "utf8"), { key, dsaEncoding }, Buffer.from(signatureB64, "base64"));
+    } catch {
+      return false;
+    }
+  },
+
+  async publicKeyFromPrivate(algorithm, privateKeyPem) {
+    const pub = assertKey(crypto.createPublicKey(crypto.createPrivateKey(privateKeyPem)), algorithm);
+    return pub.export({ type: "spki", format: "pem" }).toString();
+  },
+
+  async assertPublicKey(algorithm, publicKeyPem) {
+    assertKey(crypto.createPublicKey(publicKeyPem), algorithm);
+  },
+
+  async publicKeyFingerprint(publicKeyPem) {
+    const der = crypto.createPublicKey(publicKeyPem).export({ type: "spki", format: "der" });
+    return crypto.createHash("sha256").update(der).digest("hex");
+  }
+};
@@ -0,0 +1,109 @@
+/* runConformance.ts
+   Node entry point for the kernel's conformance suites: StorageAdapter checks for the built-in adapters,
+   crypto vectors for both CryptoProviders and the JCS vectors. Prints every check and exits nonzero if any fails.
+   Run on Node >= 19 (for the WebCrypto provider), e.g. `npx tsx src/satellites/shared/federation/runConformance.ts`.
+*/
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import type { StorageAdapter } from "./FederatedCapabilityKernel";
+import { runCryptoVectors } from "./cryptoVectors";
+import { runJcsVectors } from "./jcsVectors";
+import { createWebCryptoProvider } from "./isoCrypto";
+import { nodeCryptoProvider } from "./nodeCryptoProvider";
+import { runStorageAdapterConformance, type ConformanceReport } from "./storage/conformance";
+import { createAesGcmCipher, importAesGcmKey } from "./storage/encryption";
+import { FileSystemStorageAdapter } from "./storage/FileSystemStorageAdapter";
+import { LocalStorageAdapter } from "./storage/LocalStorageAdapter";
+import { MemoryStorageAdapter } from "./storage/MemoryStorageAdapter";
+
+/** ---------- Fixtures ---------- **/
+
+/** Map-backed window.localStorage stand-in; shared across adapters like a real origin's storage. */
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, String(value))
+  };
+}
+
+type Peekable = StorageAdapter & { peekRaw(key: string): string | null | Promise<string | null> };
+const peekRaw = (adapter: StorageAdapter, key: string) => (adapter as Peekable).peekRaw(key);
+
+/** ---------- Suites ---------- **/
+
+async function suites(tmpDir: string): Promise<{ name: string; run: () => ConformanceReport | Promise<ConformanceReport> }[]> {
+  const memory = new Map<string, string>();
+  const local = memoryStorage();
+  const encrypted = new Map<string, string>();
+  const cipher = createAesGcmCipher(await importAesGcmKey(new Uint8Array(crypto.randomBytes(32))));
+
+  return [
+    {
+      name: "MemoryStorageAdapter",
+      run: () => runStorageAdapterConformance({ create: (namespace) => new MemoryStorageAdapter({ namespace }, memory), peekRaw })
+    },
+    {
+      name: "MemoryStorageAdapter (AES-GCM)",
+      run: () => runStorageAdapterConformance({
+        create: (namespace) => new MemoryStorageAdapter({ namespace, cipher }, encrypted),
+        peekRaw,
+        encrypted: true
+      })
+    },
+    {
+      name: "LocalStorageAdapter",
+      run: () => runStorageAdapterConformance({ create: (namespace) => new LocalStorageAdapter({ namespace }, local), peekRaw })
+    },
+    {
+      name: "FileSystemStorageAdapter",
+      run: () => runStorageAdapterConformance({ create: (namespace) => new FileSystemStorageAdapter(path.join(tmpDir, namespace)), peekRaw })
+    },
+    { name: "Crypto vectors (WebCrypto)", run: () => runCryptoVectors(createWebCryptoProvider()) },
+    { name: "Crypto vectors (Node)", run: () => runCryptoVectors(nodeCryptoProvider) },
+    { name: "JCS vectors", run: () => runJcsVectors() }
+  ];
+}
+
+/** ---------- Main ---------- **/
+
+async function main(): Promise<number> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "acip-conformance-"));
+  let failed = 0;
+  try {
+    for (const suite of await suites(tmpDir)) {
+      let report: ConformanceReport;
+      try {
+        report = await suite.run();
+      } catch (e) {
+        report = { ok: false, checks: [{ name: "suite threw", ok: false, detail: (e as Error)?.message ?? String(e) }] };
+      }
+      console.log(`${report.ok ? "PASS" : "FAIL"} ${suite.name}`);
+      report.checks
+        .filter((c) => !c.ok)
+        .forEach((c) => console.log(`  ✗ ${c.name}${c.detail ? `: ${c.detail}` : ""}`));
+      if (!report.ok) failed += 1;
+    }
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+  console.log(failed ? `${failed} suite(s) failed` : "All conformance suites passed");
+  return failed ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(e);
+    process.exit(1);
+  }
+);
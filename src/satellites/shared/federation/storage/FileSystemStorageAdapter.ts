@@ -0,0 +1,71 @@
+/* FileSystemStorageAdapter.ts
+   Node StorageAdapter: one file per key, written atomically (temp file + fsync + rename).
+   Server-side only; do not import from browser bundles.
+*/
+
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { StorageAdapter } from "../FederatedCapabilityKernel";
+import { StorageAdapterOptions, ValueCodec } from "./adapterOptions";
+
+export class FileSystemStorageAdapter implements StorageAdapter {
+  private readonly codec: ValueCodec;
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly dir: string, opts: StorageAdapterOptions = {}) {
+    this.codec = new ValueCodec(opts);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.codec.decode(await this.readRaw(key));
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.ensureDir();
+    const target = this.fileFor(key);
+    const tmp = `${target}.${process.pid}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+
+    const handle = await fs.open(tmp, "w", 0o600);
+    try {
+      await handle.writeFile(await this.codec.encode(value), "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(tmp, target); // atomic replace on POSIX; readers see old or new, never partial
+    } catch (e) {
+      await fs.unlink(tmp).catch(() => undefined);
+      throw e;
+    }
+  }
+
+  peekRaw(key: string): Promise<string | null> {
+    return this.readRaw(key);
+  }
+
+  private async readRaw(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.fileFor(key), "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  /** Keys are URI-encoded so any key maps to a single safe file name. */
+  private fileFor(key: string): string {
+    const name = encodeURIComponent(this.codec.key(key)).replace(/\*/g, "%2A").replace(/^\./, "%2E");
+    return path.join(this.dir, `${name}.json`);
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.dir, { recursive: true, mode: 0o700 }).then(() => undefined);
+      this.ready.catch(() => (this.ready = null));
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,71 @@
+/* IndexedDBStorageAdapter.ts
+   Browser StorageAdapter over IndexedDB: larger quota than localStorage and off the main-thread parser.
+*/
+
+import type { StorageAdapter } from "../FederatedCapabilityKernel";
+import { StorageAdapterOptions, ValueCodec } from "./adapterOptions";
+
+const STORE = "kv";
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private readonly codec: ValueCodec;
+  private readonly dbName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    opts: StorageAdapterOptions & { dbName?: string } = {},
+    private readonly idb: IDBFactory = globalThis.indexedDB
+  ) {
+    if (!idb) throw new Error("IndexedDB is not available in this runtime");
+    this.codec = new ValueCodec(opts);
+    this.dbName = opts.dbName ?? "acip-kernel";
+  }
+
+  async get(key: string): Promise<string | null> {
+    const db = await this.open();
+    const raw = await promisify<string | undefined>(db.transaction(STORE, "readonly").objectStore(STORE).get(this.codec.key(key)));
+    return this.codec.decode(raw ?? null);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const encoded = await this.codec.encode(value); // encrypt before opening the transaction (it would auto-commit)
+    const db = await this.open();
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put(encoded, this.codec.key(key));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+    });
+  }
+
+  async peekRaw(key: string): Promise<string | null> {
+    const db = await this.open();
+    const raw = await promisify<string | undefined>(db.transaction(STORE, "readonly").objectStore(STORE).get(this.codec.key(key)));
+    return raw ?? null;
+  }
+
+  close(): void {
+    this.db?.then((db) => db.close()).catch(() => undefined);
+    this.db = null;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = this.idb.open(this.dbName, 1);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE);
+      };
+      this.db = promisify(req);
+      this.db.catch(() => (this.db = null)); // allow retry after a failed open
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,28 @@
+/* LocalStorageAdapter.ts
+   Browser StorageAdapter over window.localStorage (synchronous, ~5MB per origin).
+*/
+
+import type { StorageAdapter } from "../FederatedCapabilityKernel";
+import { StorageAdapterOptions, ValueCodec } from "./adapterOptions";
+
+export class LocalStorageAdapter implements StorageAdapter {
+  private readonly codec: ValueCodec;
+
+  constructor(opts: StorageAdapterOptions = {}, private readonly storage: Storage = globalThis.localStorage) {
+    if (!storage) throw new Error("localStorage is not available in this runtime");
+    this.codec = new ValueCodec(opts);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.codec.decode(this.storage.getItem(this.codec.key(key)));
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    // QuotaExceededError propagates: silently dropping kernel state is worse than failing the write.
+    this.storage.setItem(this.codec.key(key), await this.codec.encode(value));
+  }
+
+  peekRaw(key: string): string | null {
+    return this.storage.getItem(this.codec.key(key));
+  }
+}
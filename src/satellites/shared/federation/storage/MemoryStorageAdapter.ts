@@ -0,0 +1,28 @@
+/* MemoryStorageAdapter.ts
+   In-process StorageAdapter for tests and ephemeral satellites.
+*/
+
+import type { StorageAdapter } from "../FederatedCapabilityKernel";
+import { StorageAdapterOptions, ValueCodec } from "./adapterOptions";
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private readonly codec: ValueCodec;
+
+  /** @param store backing map; share one between adapters to simulate a common device store */
+  constructor(opts: StorageAdapterOptions = {}, private readonly store: Map<string, string> = new Map()) {
+    this.codec = new ValueCodec(opts);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.codec.decode(this.store.get(this.codec.key(key)) ?? null);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.set(this.codec.key(key), await this.codec.encode(value));
+  }
+
+  /** Raw stored value (post-namespace, post-encryption); for inspection and conformance checks. */
+  peekRaw(key: string): string | null {
+    return this.store.get(this.codec.key(key)) ?? null;
+  }
+}
@@ -0,0 +1,27 @@
+/* adapterOptions.ts
+   Namespace + encryption handling shared by every built-in StorageAdapter.
+*/
+
+import type { ValueCipher } from "./encryption";
+
+export interface StorageAdapterOptions {
+  namespace?: string;   // prefixes every key as "<namespace>:<key>"
+  cipher?: ValueCipher; // encrypts values at rest when set
+}
+
+export class ValueCodec {
+  constructor(private readonly opts: StorageAdapterOptions = {}) {}
+
+  key(key: string): string {
+    return this.opts.namespace ? `${this.opts.namespace}:${key}` : key;
+  }
+
+  async encode(value: string): Promise<string> {
+    return this.opts.cipher ? this.opts.cipher.encrypt(value) : value;
+  }
+
+  async decode(stored: string | null): Promise<string | null> {
+    if (stored === null) return null;
+    return this.opts.cipher ? this.opts.cipher.decrypt(stored) : stored;
+  }
+}
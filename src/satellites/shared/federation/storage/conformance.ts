@@ -0,0 +1,110 @@
+/* conformance.ts
+   Shared conformance checks for StorageAdapter implementations. Runs against any adapter
+   (built-in or third-party) and returns a report; usable from any test runner or at boot.
+*/
+
+import type { StorageAdapter } from "../FederatedCapabilityKernel";
+
+export interface ConformanceCheck {
+  name: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export interface ConformanceReport {
+  ok: boolean;
+  checks: ConformanceCheck[];
+}
+
+export interface ConformanceTarget {
+  /** Fresh adapter; called with a namespace so checks never collide with real data. */
+  create(namespace: string): StorageAdapter | Promise<StorageAdapter>;
+  /** Raw stored value, when the adapter exposes it; enables the at-rest encryption check. */
+  peekRaw?(adapter: StorageAdapter, key: string): string | null | Promise<string | null>;
+  encrypted?: boolean;
+}
+
+async function check(name: string, fn: () => Promise<void>): Promise<ConformanceCheck> {
+  try {
+    await fn();
+    return { name, ok: true };
+  } catch (e) {
+    return { name, ok: false, detail: (e as Error)?.message ?? String(e) };
+  }
+}
+
+function expectEqual(actual: unknown, expected: unknown, what: string): void {
+  if (actual !== expected) throw new Error(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+}
+
+export async function runStorageAdapterConformance(target: ConformanceTarget): Promise<ConformanceReport> {
+  const run = `conformance-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const a = await target.create(`${run}-a`);
+  const b = await target.create(`${run}-b`);
+
+  const checks: ConformanceCheck[] = [];
+
+  checks.push(await check("missing key returns null", async () => {
+    expectEqual(await a.get("does.not.exist"), null, "get(missing)");
+  }));
+
+  checks.push(await check("set then get round-trips", async () => {
+    await a.set("acip.kernel.state.agent", '{"x":1}');
+    expectEqual(await a.get("acip.kernel.state.agent"), '{"x":1}', "get");
+  }));
+
+  checks.push(await check("set overwrites", async () => {
+    await a.set("k.overwrite", "first");
+    await a.set("k.overwrite", "second");
+    expectEqual(await a.get("k.overwrite"), "second", "get after overwrite");
+  }));
+
+  checks.push(await check("empty string is a value, not missing", async () => {
+    await a.set("k.empty", "");
+    expectEqual(await a.get("k.empty"), "", "get(empty)");
+  }));
+
+  checks.push(await check("unicode and special characters survive", async () => {
+    const v = 'Ω≈ç√ 你好 🛰️ "quoted" \\ \n\t \u0000 end';
+    await a.set("k/with:odd*chars?.and spaces", v);
+    expectEqual(await a.get("k/with:odd*chars?.and spaces"), v, "get(unicode)");
+  }));
+
+  checks.push(await check("large values (256 KiB) round-trip", async () => {
+    const v = "x".repeat(256 * 1024);
+    await a.set("k.large", v);
+    expectEqual((await a.get("k.large"))?.length, v.length, "length");
+  }));
+
+  checks.push(await check("namespaces are isolated", async () => {
+    await a.set("k.shared", "from-a");
+    await b.set("k.shared", "from-b");
+    expectEqual(await a.get("k.shared"), "from-a", "a");
+    expectEqual(await b.get("k.shared"), "from-b", "b");
+  }));
+
+  checks.push(await check("concurrent writes settle to one complete value", async () => {
+    const values = Array.from({ length: 20 }, (_, i) => `value-${i}-${"y".repeat(1000)}`);
+    await Promise.all(values.map((v) => a.set("k.concurrent", v)));
+    const got = await a.get("k.concurrent");
+    if (!got || !values.includes(got)) throw new Error("value is torn or missing after concurrent writes");
+  }));
+
+  checks.push(await check("a second instance on the same namespace sees persisted data", async () => {
+    await a.set("k.persist", "durable");
+    const again = await target.create(`${run}-a`);
+    expectEqual(await again.get("k.persist"), "durable", "get from new instance");
+  }));
+
+  if (target.encrypted && target.peekRaw) {
+    checks.push(await check("values are not stored in plaintext", async () => {
+      const secret = "plaintext-canary-7f3a";
+      await a.set("k.secret", secret);
+      const raw = await target.peekRaw!(a, "k.secret");
+      if (raw === null) throw new Error("raw value missing");
+      if (raw.includes(secret)) throw new Error("raw value contains plaintext");
+    }));
+  }
+
+  return { ok: checks.every((c) => c.ok), checks };
+}
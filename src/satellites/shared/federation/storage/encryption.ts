@@ -0,0 +1,60 @@
+/* encryption.ts
+   Optional at-rest encryption for StorageAdapter values: AES-256-GCM via WebCrypto
+   (browser + Node >= 19 globalThis.crypto). Values are stored as "enc:v1:<iv_b64>:<ciphertext_b64>".
+*/
+
+export interface ValueCipher {
+  encrypt(plaintext: string): Promise<string>;
+  decrypt(stored: string): Promise<string>;
+}
+
+const PREFIX = "enc:v1:";
+
+function toB64(bytes: Uint8Array): string {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin);
+}
+
+function fromB64(b64: string): ArrayBuffer {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out.buffer as ArrayBuffer;
+}
+
+export function createAesGcmCipher(key: CryptoKey): ValueCipher {
+  const enc = new TextEncoder();
+  const dec = new TextDecoder();
+  return {
+    async encrypt(plaintext) {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, enc.encode(plaintext));
+      return `${PREFIX}${toB64(iv)}:${toB64(new Uint8Array(ct))}`;
+    },
+    async decrypt(stored) {
+      if (!stored.startsWith(PREFIX)) throw new Error("STORAGE_VALUE_NOT_ENCRYPTED");
+      const [ivB64, ctB64] = stored.slice(PREFIX.length).split(":");
+      const pt = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromB64(ivB64) }, key, fromB64(ctB64));
+      return dec.decode(pt);
+    }
+  };
+}
+
+/** Derives an AES-256-GCM key from a secret (passphrase, session-bound secret) with PBKDF2-SHA256. */
+export async function deriveAesGcmKey(secret: string, salt: string, iterations = 210000): Promise<CryptoKey> {
+  const enc = new TextEncoder();
+  const base = await crypto.subtle.importKey("raw", enc.encode(secret), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: enc.encode(salt), iterations },
+    base,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function importAesGcmKey(raw: Uint8Array): Promise<CryptoKey> {
+  if (raw.length !== 32) throw new Error("AES-256-GCM key must be 32 bytes");
+  return crypto.subtle.importKey("raw", new Uint8Array(raw).buffer as ArrayBuffer, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+}
@@ -0,0 +1,248 @@
+/**
+ * Hemisphere Telemetry - HemisphereState derived from real reasoning requests
+ *
+ * Every chat / sovereign-fallback round trip and every offline LocalReasoner run is recorded as a metrics sample
+ * (hemisphere confidences, tokens, latency, arbitration outcome). The state shown on the dashboard is computed from
+ * a rolling window of those samples; with no request in flight and none recent, the state is explicitly idle.
+ */
+
+import type { HemisphereState } from './DualHemisphereCore';
+
+export type Arbitration = HemisphereState['fusion']['arbitration'];
+export type ReasoningSource = 'federated' | 'sovereign' | 'local';   // local = in-process LocalReasoner
+
+export interface ReasoningMetrics {
+  source: ReasoningSource;
+  ok: boolean;
+  at: number;                          // epoch ms when the response arrived
+  latency_ms: number;
+  confidence: number | null;           // fused confidence
+  alpha_confidence: number | null;
+  omega_confidence: number | null;
+  alpha_reasoning?: HemisphereState['alpha']['reasoning'];
+  omega_reasoning?: HemisphereState['omega']['reasoning'];
+  coherence: number | null;            // 0..1, when the backend reports it
+  arbitration: Arbitration | null;
+  tokens: number | null;               // prompt + completion
+}
+
+export interface TelemetryPolicy {
+  window_size: number;                 // samples kept
+  window_ms: number;                   // samples older than this are ignored
+  idle_after_ms: number;               // no request for this long (and none in flight) = idle
+}
+
+export const DEFAULT_TELEMETRY_POLICY: TelemetryPolicy = {
+  window_size: 20,
+  window_ms: 10 * 60 * 1000,
+  idle_after_ms: 60 * 1000
+};
+
+export const IDLE_HEMISPHERE_STATE: HemisphereState = {
+  alpha: { activity: 0, confidence: 0, reasoning: 'analytical' },
+  omega: { activity: 0, confidence: 0, reasoning: 'intuitive' },
+  fusion: { coherence: 0, arbitration: 'balanced' },
+  telemetry: {
+    status: 'idle',
+    samples: 0,
+    in_flight: 0,
+    avg_latency_ms: null,
+    avg_tokens: null,
+    error_rate: null,
+    last_request_utc: null
+  }
+};
+
+/** ---------- Response parsing ---------- **/
+
+const ALPHA_MODES = ['analytical', 'pattern-match', 'deductive'] as const;
+const OMEGA_MODES = ['intuitive', 'creative', 'holistic'] as const;
+const ARBITRATIONS = ['alpha-dominant', 'omega-dominant', 'balanced'] as const;
+
+export const asRecord = (v: unknown): Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v) ? (v as Record<string, unknown>) : {};
+export const num = (v: unknown): number | null => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+const unit = (v: unknown): number | null => {
+  const n = num(v);
+  if (n === null) return null;
+  return Math.min(1, Math.max(0, n > 1 ? n / 100 : n)); // accept 0..1 or percentages
+};
+export const oneOf = <T extends string>(options: readonly T[], v: unknown): T | undefined =>
+  options.includes(v as T) ? (v as T) : undefined;
+
+/**
+ * Reads metrics from a `chat` or `sovereign-fallback` response. Accepts them under `metrics` or at the top level:
+ * `alpha_confidence` / `omega_confidence` (or `hemispheres.{alpha,omega}.confidence`), `arbitration`,
+ * `fusion_coherence`, `usage.{prompt_tokens,completion_tokens,total_tokens}` or `tokens`. Missing fields stay null.
+ */
+export function extractReasoningMetrics(data: unknown, latencyMs: number, source: ReasoningSource): ReasoningMetrics {
+  const m = { ...asRecord(data), ...asRecord(asRecord(data).metrics) };
+  const usage = asRecord(m.usage);
+  const hemispheres = asRecord(m.hemispheres);
+  const alpha = asRecord(hemispheres.alpha);
+  const omega = asRecord(hemispheres.omega);
+  const tokens = num(usage.total_tokens) ?? (
+    num(usage.prompt_tokens) !== null || num(usage.completion_tokens) !== null
+      ? (num(usage.prompt_tokens) ?? 0) + (num(usage.completion_tokens) ?? 0)
+      : num(m.tokens)
+  );
+  const dominant = m.dominant_hemisphere;
+  const arbitration = oneOf(ARBITRATIONS, m.arbitration)
+    ?? (dominant === 'alpha' ? 'alpha-dominant' : dominant === 'omega' ? 'omega-dominant' : dominant === 'fused' ? 'balanced' : null);
+
+  return {
+    source,
+    ok: true,
+    at: Date.now(),
+    latency_ms: latencyMs,
+    confidence: unit(m.confidence),
+    alpha_confidence: unit(m.alpha_confidence ?? alpha.confidence),
+    omega_confidence: unit(m.omega_confidence ?? omega.confidence),
+    alpha_reasoning: oneOf(ALPHA_MODES, m.alpha_reasoning ?? alpha.reasoning),
+    omega_reasoning: oneOf(OMEGA_MODES, m.omega_reasoning ?? omega.reasoning),
+    coherence: unit(m.fusion_coherence ?? m.coherence),
+    arbitration,
+    tokens
+  };
+}
+
+export function failedReasoningMetrics(latencyMs: number, source: ReasoningSource): ReasoningMetrics {
+  return {
+    source, ok: false, at: Date.now(), latency_ms: latencyMs,
+    confidence: null, alpha_confidence: null, omega_confidence: null,
+    coherence: null, arbitration: null, tokens: null
+  };
+}
+
+/** ---------- Derivation ---------- **/
+
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : null);
+const ARBITRATION_SHARE: Record<Arbitration, number> = { 'alpha-dominant': 0.7, 'omega-dominant': 0.3, balanced: 0.5 };
+
+// ALPHA's share of the reasoning load in one request: from the two confidences when both are known.
+function alphaShare(s: ReasoningMetrics): number | null {
+  if (s.alpha_confidence !== null && s.omega_confidence !== null && s.alpha_confidence + s.omega_confidence > 0) {
+    return s.alpha_confidence / (s.alpha_confidence + s.omega_confidence);
+  }
+  return s.arbitration ? ARBITRATION_SHARE[s.arbitration] : null;
+}
+
+/** HemisphereState for a window of samples (oldest first). Pure, so dashboards and tests agree on the numbers. */
+export function deriveHemisphereState(
+  samples: ReasoningMetrics[],
+  inFlight: number,
+  now: number = Date.now(),
+  policy: TelemetryPolicy = DEFAULT_TELEMETRY_POLICY
+): HemisphereState {
+  const window = samples.filter(s => now - s.at <= policy.window_ms).slice(-policy.window_size);
+  const last = window[window.length - 1];
+  const idle = inFlight === 0 && (!last || now - last.at > policy.idle_after_ms);
+  if (!window.length) return { ...IDLE_HEMISPHERE_STATE, telemetry: { ...IDLE_HEMISPHERE_STATE.telemetry, status: idle ? 'idle' : 'processing', in_flight: inFlight } };
+
+  const ok = window.filter(s => s.ok);
+  const pick = (f: (s: ReasoningMetrics) => number | null) => ok.map(f).filter((v): v is number => v !== null);
+
+  const share = mean(pick(alphaShare)) ?? 0.5;
+  const alphaConfidence = mean(pick(s => s.alpha_confidence ?? (s.arbitration === 'alpha-dominant' ? s.confidence : null))) ?? 0;
+  const omegaConfidence = mean(pick(s => s.omega_confidence ?? (s.arbitration === 'omega-dominant' ? s.confidence : null))) ?? 0;
+  // Reported coherence wins; otherwise agreement between the hemispheres, otherwise the fused confidence.
+  const coherence = mean(pick(s => s.coherence ?? (
+    s.alpha_confidence !== null && s.omega_confidence !== null ? 1 - Math.abs(s.alpha_confidence - s.omega_confidence) : s.confidence
+  ))) ?? 0;
+
+  const votes = { 'alpha-dominant': 0, 'omega-dominant': 0, balanced: 0 };
+  ok.forEach(s => { if (s.arbitration) votes[s.arbitration] += 1; });
+  const arbitration: Arbitration = votes['alpha-dominant'] > Math.max(votes['omega-dominant'], votes.balanced) ? 'alpha-dominant'
+    : votes['omega-dominant'] > Math.max(votes['alpha-dominant'], votes.balanced) ? 'omega-dominant'
+    : 'balanced';
+
+  const latestMode = <K extends 'alpha_reasoning' | 'omega_reasoning'>(key: K) =>
+    [...ok].reverse().find(s => s[key])?.[key];
+
+  return {
+    alpha: {
+      activity: idle ? 0 : Math.round(share * 1000) / 10,
+      confidence: alphaConfidence,
+      reasoning: latestMode('alpha_reasoning') ?? 'analytical'
+    },
+    omega: {
+      activity: idle ? 0 : Math.round((1 - share) * 1000) / 10,
+      confidence: omegaConfidence,
+      reasoning: latestMode('omega_reasoning') ?? 'intuitive'
+    },
+    fusion: { coherence: Math.round(coherence * 1000) / 10, arbitration },
+    telemetry: {
+      status: inFlight > 0 ? 'processing' : idle ? 'idle' : 'active',
+      samples: window.length,
+      in_flight: inFlight,
+      avg_latency_ms: mean(window.map(s => s.latency_ms)),
+      avg_tokens: mean(pick(s => s.tokens)),
+      error_rate: (window.length - ok.length) / window.length,
+      last_request_utc: new Date(last.at).toISOString()
+    }
+  };
+}
+
+/** ---------- Shared recorder ---------- **/
+
+export class HemisphereTelemetry {
+  private readonly samples: ReasoningMetrics[] = [];
+  private readonly listeners = new Set<(s: HemisphereState) => void>();
+  private inFlight = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private state: HemisphereState = IDLE_HEMISPHERE_STATE;
+
+  constructor(private readonly policy: TelemetryPolicy = DEFAULT_TELEMETRY_POLICY) {}
+
+  subscribe(listener: (s: HemisphereState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => this.listeners.delete(listener);
+  }
+
+  getState(): HemisphereState {
+    return this.state;
+  }
+
+  /** Marks a request in flight; call the returned function with its metrics when it settles (null if cancelled). */
+  begin(): (metrics: ReasoningMetrics | null) => void {
+    this.inFlight += 1;
+    this.publish();
+    let settled = false;
+    return (metrics) => {
+      if (settled) return;
+      settled = true;
+      this.inFlight -= 1;
+      if (metrics) {
+        this.samples.push(metrics);
+        if (this.samples.length > this.policy.window_size) this.samples.shift();
+      }
+      this.publish();
+    };
+  }
+
+  private publish(): void {
+    this.state = deriveHemisphereState(this.samples, this.inFlight, Date.now(), this.policy);
+    this.listeners.forEach(l => l(this.state));
+
+    // Re-derive once the last sample ages past idle_after_ms so the dashboard drops to idle on its own.
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    if (this.state.telemetry.status === 'active') {
+      const last = this.samples[this.samples.length - 1];
+      this.idleTimer = setTimeout(() => this.publish(), Math.max(0, last.at + this.policy.idle_after_ms - Date.now()) + 1);
+    }
+  }
+}
+
+const recorders = new Map<string, HemisphereTelemetry>();
+
+/** The telemetry for a satellite, shared by DualHemisphereCore and useDualHemisphere. */
+export function getHemisphereTelemetry(satelliteId: string): HemisphereTelemetry {
+  let recorder = recorders.get(satelliteId);
+  if (!recorder) {
+    recorder = new HemisphereTelemetry();
+    recorders.set(satelliteId, recorder);
+  }
+  return recorder;
+}
@@ -4,22 +4,42 @@
 // Dual Hemisphere Cognitive Core - Edge agent architecture
 export { DualHemisphereCore, useDualHemisphere } from './DualHemisphereCore';
 export { useEdgeMemory } from './useEdgeMemory';
-export type { HemisphereState, DualHemisphereCoreProps, ReasoningResult } from './DualHemisphereCore';
+export { OfflineSyncQueue, getOfflineSyncQueue, discardOfflineSyncQueues, edgeMemoryTransport, DEFAULT_SYNC_QUEUE_POLICY } from './OfflineSyncQueue';
+export type { SyncOperation, SyncOperationKind, DeadLetter, SyncQueueEvent, SyncQueuePolicy, SyncQueueScope } from './OfflineSyncQueue';
+export { mergeKnowledge, mergeKnowledgeEntry, HybridLogicalClock, getEdgeClock, compareClocks, compareHlc } from './knowledgeMerge';
+export type { KnowledgeEntry, KnowledgeConflict, KnowledgeConflictResolver, KnowledgeResolution, VectorClock } from './knowledgeMerge';
+export { readEdgeCache, writeEdgeCache, wipeEdgeCaches, edgeCacheCipher } from './edgeMemoryCache';
+export { retainMemories, scoreMemories, foldIntoDigest, resolveRetentionPolicy, DEFAULT_RETENTION_POLICY } from './memoryRetention';
+export type { RetentionPolicy, RetentionPolicyOverrides, MemoryDigest } from './memoryRetention';
+export { MemoryIndex, tokenize } from './memoryRecall';
+export type { EmbeddingFunction, RecallHit, RecallOptions } from './memoryRecall';
+export type { HemisphereState, DualHemisphereCoreProps, DualHemisphereCoreHandle, ReasoningResult, DualHemisphereOptions } from './DualHemisphereCore';
+export { getHemisphereTelemetry, HemisphereTelemetry, deriveHemisphereState, extractReasoningMetrics, IDLE_HEMISPHERE_STATE } from './hemisphereTelemetry';
+export type { ReasoningMetrics, TelemetryPolicy } from './hemisphereTelemetry';
+export { readEventStream, streamReasoningStage } from './reasoningStream';
+export type { ReasoningStreamEvent } from './reasoningStream';
+export { RuleBasedReasoner, ModelReasoner, classifyIntent, buildLocalPrompt, reasonLocally, DEFAULT_LOCAL_TEMPLATES } from './localReasoner';
+export type { LocalReasoner, LocalReasoningContext, LocalModelRuntime, LocalTemplates, RuleReasonerOptions } from './localReasoner';
+export { ConversationManager, getConversation, summarizeTurns, estimateTokens, DEFAULT_CONVERSATION_POLICY } from './conversationManager';
+export type { ConversationTurn, ConversationPolicy, ConversationContext, BuiltConversation, ChatMessage } from './conversationManager';
+export { GOVERNANCE_RISK_TIERS, GovernanceBlockedError, isGovernanceValidated, runReasoningStage } from './reasoningGovernance';
+export type { GovernanceVerdict, ReasoningKernel } from './reasoningGovernance';
+export { ASK_FEDERATION, createSupabaseFederationClient, DEFAULT_FEDERATION_FUNCTIONS } from './supabaseFederationClient';
+export type { FunctionCallPayload } from './supabaseFederationClient';
 
-// Federation configuration constants
-export const FEDERATION_CONFIG = {
-  CORE_URL: 'https://yokxmlatktvxqymxtktn.supabase.co',
-  SYNC_KEY_NAME: 'FEDERATED_SYNC_KEY',
-  SYNC_ENDPOINT: '/functions/v1/federation-receiver',
-  SOVEREIGN_ENDPOINT: '/functions/v1/sovereign-fallback',
-  HEARTBEAT_INTERVAL_MS: 30000,
-  FEDERATION_TIMEOUT_MS: 3000,
-  SATELLITE_COUNT: 21,
-  SOVEREIGN_CAPABILITIES: [
-    'local_reasoning',
-    'grls_rehydration',
-    'memory_persistence',
-    'governance_enforcement',
-    'sync_queue'
-  ]
-} as const;
\ No newline at end of file
+// Governed kernel lifecycle: every satellite action from React passes GOV/DVAP
+export { KernelProvider, useKernel, useOptionalKernel } from './KernelProvider';
+export type { KernelContextValue, KernelProviderProps, KernelStatus } from './KernelProvider';
+
+// Human-in-the-loop confirmation for T2/T3 kernel actions
+export { ApprovalInbox } from './ApprovalInbox';
+export { signConfirmationDecision, createSupabaseApproverVerifier, ApproverKeyring } from './approvalSigning';
+export type { ApproverSigningKey } from './approvalSigning';
+
+// Federation configuration (validated; merged from defaults, synced file, env and runtime override)
+export { FEDERATION_CONFIG, getFederationConfig, loadFederationConfig, federationUrl, FederationConfigError } from '../../federation/loadConfig';
+export type { FederationConfig } from '../../federation/loadConfig';
+
+// Shared satellite heartbeat (health payload, latency, rolling availability)
+export { getHeartbeatService, HeartbeatService } from '../../federation/heartbeat';
+export type { HeartbeatSnapshot, HeartbeatHealthPayload } from '../../federation/heartbeat';
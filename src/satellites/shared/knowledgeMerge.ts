@@ -0,0 +1,296 @@
+/**
+ * Knowledge Merge - reconciles edge knowledge evolved offline on several devices
+ *
+ * Each knowledge key carries a vector clock that doubles as a per-device observation counter, so merging two
+ * copies is a pointwise max and `observations` is the clock total. Copies whose clocks are concurrent and whose
+ * values differ are true conflicts: they go to a resolution callback, defaulting to hybrid-logical-clock LWW.
+ */
+
+import { canonicalStringify } from './federation/canonical';
+
+/** device id -> observations contributed by that device */
+export type VectorClock = Record<string, number>;
+
+/** Observations the server reports that no known device accounts for (servers that do not echo clocks). */
+export const SERVER_NODE = '~server';
+
+export interface KnowledgeEntry {
+  value: unknown;
+  confidence: number;
+  observations: number;
+  type: string;
+  clock?: VectorClock;   // absent on entries from before clocks (treated as all-server)
+  acked?: VectorClock;   // clock as of the last server acknowledgement
+  hlc?: string;          // hybrid logical timestamp of the last local value change
+}
+
+export type ClockOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+export interface KnowledgeConflict {
+  key: string;
+  local: KnowledgeEntry;
+  remote: KnowledgeEntry;
+  suggested: 'local' | 'remote';   // HLC last-writer-wins
+}
+
+export type KnowledgeResolution = 'local' | 'remote' | { value: unknown; type?: string };
+
+export type KnowledgeConflictResolver = (
+  conflict: KnowledgeConflict
+) => KnowledgeResolution | void | Promise<KnowledgeResolution | void>;
+
+export interface KnowledgeMergeResult {
+  knowledge: Record<string, KnowledgeEntry>;
+  conflicts: (KnowledgeConflict & { resolution: KnowledgeResolution })[];
+  rewrites: { key: string; value: unknown; type: string }[];   // resolved values the queued local writes would overwrite
+}
+
+/** ---------- Hybrid logical clock ---------- **/
+
+interface HlcTimestamp {
+  wall: number;
+  logical: number;
+  node: string;
+}
+
+const formatHlc = (t: HlcTimestamp) => `${t.wall.toString().padStart(13, '0')}.${t.logical.toString().padStart(6, '0')}.${t.node}`;
+
+function parseHlc(raw: string): HlcTimestamp | null {
+  const m = /^(\d+)\.(\d+)\.(.+)$/.exec(raw);
+  return m ? { wall: Number(m[1]), logical: Number(m[2]), node: m[3] } : null;
+}
+
+/** Orders HLC strings; missing or malformed timestamps sort first, node id breaks exact ties. */
+export function compareHlc(a?: string, b?: string): number {
+  const x = a ? parseHlc(a) : null;
+  const y = b ? parseHlc(b) : null;
+  if (!x || !y) return (x ? 1 : 0) - (y ? 1 : 0);
+  if (x.wall !== y.wall) return x.wall - y.wall;
+  if (x.logical !== y.logical) return x.logical - y.logical;
+  return x.node < y.node ? -1 : x.node > y.node ? 1 : 0;
+}
+
+export class HybridLogicalClock {
+  private wall = 0;
+  private logical = 0;
+
+  constructor(readonly node: string, private readonly now: () => number = () => Date.now()) {}
+
+  /** Timestamp for a local event; strictly greater than anything issued or received before. */
+  tick(): string {
+    const pt = this.now();
+    if (pt > this.wall) {
+      this.wall = pt;
+      this.logical = 0;
+    } else {
+      this.logical += 1;
+    }
+    return formatHlc({ wall: this.wall, logical: this.logical, node: this.node });
+  }
+
+  /** Folds in a remote timestamp so later local ticks order after it even if this device's clock lags. */
+  receive(remote?: string): void {
+    const r = remote ? parseHlc(remote) : null;
+    if (!r) return;
+    const pt = this.now();
+    const wall = Math.max(this.wall, r.wall, pt);
+    if (wall === this.wall && wall === r.wall) this.logical = Math.max(this.logical, r.logical) + 1;
+    else if (wall === this.wall) this.logical += 1;
+    else if (wall === r.wall) this.logical = r.logical + 1;
+    else this.logical = 0;
+    this.wall = wall;
+  }
+}
+
+const DEVICE_ID_KEY = 'acip.edge.device_id';
+let edgeClock: HybridLogicalClock | null = null;
+
+/** This device's HLC; the node id is a random id persisted per browser profile. */
+export function getEdgeClock(): HybridLogicalClock {
+  if (edgeClock) return edgeClock;
+  let node: string | null = null;
+  try {
+    node = localStorage.getItem(DEVICE_ID_KEY);
+    if (!node) {
+      node = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, node);
+    }
+  } catch {
+    node = node ?? crypto.randomUUID(); // storage unavailable: id lasts for this page only
+  }
+  edgeClock = new HybridLogicalClock(node);
+  return edgeClock;
+}
+
+/** ---------- Vector clocks ---------- **/
+
+export const clockTotal = (c: VectorClock) => Object.values(c).reduce((sum, n) => sum + n, 0);
+
+export function mergeClocks(a: VectorClock, b: VectorClock): VectorClock {
+  const out: VectorClock = { ...a };
+  Object.entries(b).forEach(([node, n]) => { out[node] = Math.max(out[node] ?? 0, n); });
+  return out;
+}
+
+export function compareClocks(a: VectorClock, b: VectorClock): ClockOrder {
+  let aAhead = false;
+  let bAhead = false;
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach(node => {
+    const x = a[node] ?? 0;
+    const y = b[node] ?? 0;
+    if (x > y) aAhead = true;
+    if (y > x) bAhead = true;
+  });
+  if (aAhead && bAhead) return 'concurrent';
+  return aAhead ? 'after' : bAhead ? 'before' : 'equal';
+}
+
+const clockOf = (e: KnowledgeEntry): VectorClock => e.clock ?? { [SERVER_NODE]: e.observations };
+const ackedOf = (e: KnowledgeEntry): VectorClock => e.acked ?? (e.clock ? {} : clockOf(e));
+
+/**
+ * The server copy's clock. Servers that echo clocks are taken at their word; otherwise the observations we know
+ * were acknowledged keep their device attribution and the rest of the server's count is filed under SERVER_NODE.
+ */
+export function remoteClockFor(remote: KnowledgeEntry, localAcked: VectorClock = {}): VectorClock {
+  if (remote.clock) return remote.clock;
+  const { [SERVER_NODE]: ackedServer = 0, ...devices } = localAcked;
+  return { ...devices, [SERVER_NODE]: Math.max(ackedServer, remote.observations - clockTotal(devices)) };
+}
+
+/** ---------- Entry / map merge ---------- **/
+
+function sameValue(a: unknown, b: unknown): boolean {
+  try {
+    return canonicalStringify(a) === canonicalStringify(b);
+  } catch {
+    return false;
+  }
+}
+
+// Each side's confidence counts for the observations only it has seen since the copies diverged.
+function mergeConfidence(local: KnowledgeEntry, localClock: VectorClock, remote: KnowledgeEntry, remoteClock: VectorClock): number {
+  const common = clockTotal(Object.fromEntries(
+    Object.keys(localClock).filter(n => n in remoteClock).map(n => [n, Math.min(localClock[n], remoteClock[n])])
+  ));
+  const localOnly = clockTotal(localClock) - common;
+  const remoteOnly = clockTotal(remoteClock) - common;
+  if (localOnly + remoteOnly === 0) return remote.confidence;
+  return (local.confidence * localOnly + remote.confidence * remoteOnly) / (localOnly + remoteOnly);
+}
+
+/**
+ * Merges one key. `remote` is the server copy (rehydrate or a write acknowledgement); the result's `acked` records
+ * what the server has now seen, so the same observations are never counted twice.
+ */
+export async function mergeKnowledgeEntry(
+  key: string,
+  local: KnowledgeEntry,
+  remote: KnowledgeEntry,
+  resolve?: KnowledgeConflictResolver
+): Promise<{ entry: KnowledgeEntry; conflict?: KnowledgeConflict & { resolution: KnowledgeResolution } }> {
+  const localClock = clockOf(local);
+  const acked = ackedOf(local);
+  const remoteClock = remoteClockFor(remote, acked);
+  const order = compareClocks(localClock, remoteClock);
+  const clock = mergeClocks(localClock, remoteClock);
+  const base = { clock, acked: mergeClocks(acked, remoteClock), observations: clockTotal(clock) };
+
+  if (order === 'equal' || order === 'before') {
+    return { entry: { ...remote, ...base, hlc: remote.hlc ?? local.hlc } };
+  }
+  if (order === 'after') {
+    return { entry: { ...local, ...base } };
+  }
+
+  const confidence = mergeConfidence(local, localClock, remote, remoteClock);
+  if (sameValue(local.value, remote.value)) {
+    const newer = compareHlc(local.hlc, remote.hlc) >= 0 ? local : remote;
+    return { entry: { ...newer, ...base, confidence } };
+  }
+
+  const conflict: KnowledgeConflict = {
+    key,
+    local,
+    remote,
+    suggested: compareHlc(local.hlc, remote.hlc) > 0 ? 'local' : 'remote'
+  };
+  const resolution = (resolve ? await resolve(conflict) : undefined) ?? conflict.suggested;
+  const chosen = resolution === 'local'
+    ? { value: local.value, type: local.type, hlc: local.hlc }
+    : resolution === 'remote'
+      ? { value: remote.value, type: remote.type, hlc: remote.hlc }
+      : { value: resolution.value, type: resolution.type ?? local.type, hlc: getEdgeClock().tick() };
+
+  return { entry: { ...chosen, ...base, confidence }, conflict: { ...conflict, resolution } };
+}
+
+/** Records a local observation: bumps this device's counter and stamps the value change. */
+export function observeKnowledge(existing: KnowledgeEntry | undefined, value: unknown, type: string): KnowledgeEntry {
+  const clock = getEdgeClock();
+  const next = existing ? clockOf(existing) : {};
+  const bumped = { ...next, [clock.node]: (next[clock.node] ?? 0) + 1 };
+  return existing
+    ? { ...existing, value, type, clock: bumped, acked: ackedOf(existing), observations: clockTotal(bumped), hlc: clock.tick() }
+    : { value, type, confidence: 0.5, clock: bumped, acked: {}, observations: 1, hlc: clock.tick() };
+}
+
+/**
+ * Folds a server acknowledgement of one evolve write (sent with `sentClock`) into the local entry. The value is
+ * untouched; observations and confidence follow whichever side has seen more.
+ */
+export function acknowledgeKnowledgeWrite(
+  local: KnowledgeEntry,
+  sentClock: VectorClock | undefined,
+  server: { confidence: number; observations: number }
+): KnowledgeEntry {
+  const localClock = clockOf(local);
+  const acked = mergeClocks(ackedOf(local), sentClock ?? {});
+  const remote: KnowledgeEntry = { ...local, ...server, clock: undefined };
+  const remoteClock = remoteClockFor(remote, acked);
+  const order = compareClocks(localClock, remoteClock);
+  const clock = mergeClocks(localClock, remoteClock);
+  const confidence = order === 'after' ? local.confidence
+    : order === 'concurrent' ? mergeConfidence(local, localClock, remote, remoteClock)
+    : server.confidence;
+  return { ...local, confidence, clock, acked: mergeClocks(acked, remoteClock), observations: clockTotal(clock) };
+}
+
+/**
+ * Merges the server's knowledge map into the local one. Keys only the server has are taken as-is; keys only the
+ * device has survive while they hold observations the server has not acknowledged (queued offline writes).
+ */
+export async function mergeKnowledge(
+  local: Record<string, KnowledgeEntry>,
+  remote: Record<string, KnowledgeEntry>,
+  resolve?: KnowledgeConflictResolver
+): Promise<KnowledgeMergeResult> {
+  const result: KnowledgeMergeResult = { knowledge: {}, conflicts: [], rewrites: [] };
+  const clock = getEdgeClock();
+
+  // Sorted so resolver callbacks fire in the same order on every device.
+  const keys = [...new Set([...Object.keys(local), ...Object.keys(remote)])].sort();
+  for (const key of keys) {
+    const l = local[key];
+    const r = remote[key];
+    clock.receive(r?.hlc);
+
+    if (!l) {
+      const rc = remoteClockFor(r);
+      result.knowledge[key] = { ...r, clock: rc, acked: rc };
+      continue;
+    }
+    if (!r) {
+      if (compareClocks(clockOf(l), ackedOf(l)) === 'after') result.knowledge[key] = l;
+      continue;
+    }
+
+    const { entry, conflict } = await mergeKnowledgeEntry(key, l, r, resolve);
+    result.knowledge[key] = entry;
+    if (conflict) {
+      result.conflicts.push(conflict);
+      if (!sameValue(entry.value, l.value)) result.rewrites.push({ key, value: entry.value, type: entry.type });
+    }
+  }
+  return result;
+}
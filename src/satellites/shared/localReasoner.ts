@@ -0,0 +1,272 @@
+/**
+ * Local Reasoner - in-process reasoning for sovereign mode when no remote path answers
+ *
+ * The default RuleBasedReasoner is deterministic: it classifies the query with a fixed rule table, grounds it in
+ * the user's edge knowledge (ALPHA, structured facts) and recalled memories (OMEGA, associative context), and
+ * renders the answer from templates. Nothing leaves the device and no model is needed. A WASM or CPU model plugs in
+ * through LocalModelRuntime; ModelReasoner falls back to the rules whenever the model fails.
+ */
+
+import type { ReasoningResult } from './DualHemisphereCore';
+import type { KnowledgeEntry } from './knowledgeMerge';
+import type { MemoryDigest } from './memoryRetention';
+import { tokenize, type RecallableMemory, type RecallHit } from './memoryRecall';
+import { extractReasoningMetrics, failedReasoningMetrics, getHemisphereTelemetry } from './hemisphereTelemetry';
+import { abortError } from './reasoningStream';
+
+export type GovernanceMode = 'standard' | 'strict' | 'autonomous';
+export type LocalMemory = RecallableMemory & { confidence?: number };
+
+export interface LocalReasoningContext {
+  satelliteId: string;
+  governanceMode: GovernanceMode;
+  memories: RecallHit<LocalMemory>[];          // recalled for this query, best first
+  knowledge: Record<string, KnowledgeEntry>;
+  recentTurns: { role: string; content: string }[];
+  digest?: MemoryDigest | null;
+}
+
+export interface LocalReasoner {
+  readonly id: string;
+  reason(query: string, ctx: LocalReasoningContext, signal?: AbortSignal): Promise<ReasoningResult>;
+}
+
+/** ---------- Rule engine ---------- **/
+
+export type LocalIntent = 'greeting' | 'recall' | 'preference' | 'question' | 'statement';
+
+// First match wins.
+const INTENT_RULES: { intent: LocalIntent; pattern: RegExp }[] = [
+  { intent: 'greeting', pattern: /^\s*(hi|hello|hey|good (morning|afternoon|evening))\b/i },
+  { intent: 'recall', pattern: /\b(remember|recall|what do you know|did i (say|tell|mention)|last time)\b/i },
+  { intent: 'preference', pattern: /\b(prefer|preference|favou?rite|settings?)\b/i },
+  { intent: 'question', pattern: /\?\s*$|^\s*(what|who|when|where|why|how|which|can|could|should|is|are|do|does|explain|describe|tell me|show me)\b/i }
+];
+
+export function classifyIntent(query: string): LocalIntent {
+  return INTENT_RULES.find(r => r.pattern.test(query))?.intent ?? 'statement';
+}
+
+export interface KnowledgeFact {
+  key: string;
+  value: string;
+  confidence: number;
+  score: number;        // share of the key's terms found in the query, 0..1
+}
+
+export interface LocalEvidence {
+  intent: LocalIntent;
+  facts: KnowledgeFact[];
+  memories: RecallHit<LocalMemory>[];
+  topics: string[];     // from the eviction digest, when nothing more specific matched
+}
+
+export type LocalTemplates = Record<LocalIntent, (query: string, evidence: LocalEvidence) => string>;
+
+const VALUE_CHARS = 160;
+
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  return text.length > VALUE_CHARS ? `${text.slice(0, VALUE_CHARS - 1)}…` : text;
+}
+
+const humanize = (key: string) => key.replace(/[_.-]+/g, ' ').trim();
+
+function listEvidence(e: LocalEvidence): string[] {
+  return [
+    ...e.facts.map(f => `${humanize(f.key)}: ${f.value}`),
+    ...e.memories.map(h => h.memory.content)
+  ];
+}
+
+function ungrounded(e: LocalEvidence): string {
+  const topics = e.topics.length ? ` Earlier conversations covered ${e.topics.join(', ')}.` : '';
+  return `I'm offline and have nothing stored on this device about that yet.${topics} I'll be able to answer fully once the federation is reachable again.`;
+}
+
+export const DEFAULT_LOCAL_TEMPLATES: LocalTemplates = {
+  greeting: (_q, e) => {
+    const items = listEvidence(e);
+    return items.length
+      ? `Hello again. I'm running offline on this device; here is what I have at hand: ${items.slice(0, 2).join('; ')}.`
+      : `Hello. I'm running offline on this device, so answers come from what's stored locally.`;
+  },
+  recall: (_q, e) => {
+    const items = listEvidence(e);
+    return items.length ? `Here is what I have stored locally:\n- ${items.join('\n- ')}` : ungrounded(e);
+  },
+  preference: (_q, e) => {
+    if (!e.facts.length) return ungrounded(e);
+    return `Your saved preferences: ${e.facts.map(f => `${humanize(f.key)} is ${f.value}`).join('; ')}.`;
+  },
+  question: (_q, e) => {
+    const items = listEvidence(e);
+    return items.length
+      ? `From what's stored on this device: ${items.slice(0, 3).join('; ')}.`
+      : ungrounded(e);
+  },
+  statement: (_q, e) => {
+    const items = listEvidence(e);
+    return items.length
+      ? `Noted. Related to that, I have: ${items.slice(0, 2).join('; ')}.`
+      : `Noted. I'm offline, so I'll keep this in the conversation and sync it when the federation is back.`;
+  }
+};
+
+export interface RuleReasonerOptions {
+  templates?: Partial<LocalTemplates>;
+  maxFacts?: number;                                    // default 3
+  maxMemories?: number;                                 // default 3
+  minConfidence?: Partial<Record<GovernanceMode, number>>;   // evidence below this is not used
+}
+
+const DEFAULT_MIN_CONFIDENCE: Record<GovernanceMode, number> = { strict: 0.6, standard: 0.3, autonomous: 0.2 };
+const MIN_MEMORY_SCORE = 0.2;
+
+export class RuleBasedReasoner implements LocalReasoner {
+  readonly id = 'rules';
+  private readonly templates: LocalTemplates;
+
+  constructor(private readonly options: RuleReasonerOptions = {}) {
+    this.templates = { ...DEFAULT_LOCAL_TEMPLATES, ...options.templates };
+  }
+
+  /** The facts and memories a query is grounded in. Deterministic for the same query and context. */
+  gather(query: string, ctx: LocalReasoningContext): LocalEvidence {
+    const { maxFacts = 3, maxMemories = 3 } = this.options;
+    const minConfidence = { ...DEFAULT_MIN_CONFIDENCE, ...this.options.minConfidence }[ctx.governanceMode];
+    const terms = new Set(tokenize(query));
+    const intent = classifyIntent(query);
+
+    const facts = Object.entries(ctx.knowledge)
+      .filter(([, entry]) => entry.confidence >= minConfidence)
+      .map(([key, entry]) => {
+        const keyTerms = tokenize(humanize(key));
+        const hits = keyTerms.filter(t => terms.has(t)).length;
+        return { key, value: formatValue(entry.value), confidence: entry.confidence, score: keyTerms.length ? hits / keyTerms.length : 0 };
+      })
+      // A preference question with no matching key still gets the user's preferences.
+      .filter(f => f.score > 0 || (intent === 'preference' && ctx.knowledge[f.key].type === 'preference'))
+      .sort((a, b) => b.score * b.confidence - a.score * a.confidence || a.key.localeCompare(b.key))
+      .slice(0, maxFacts);
+
+    const memories = ctx.memories
+      .filter(h => h.score >= MIN_MEMORY_SCORE && (h.memory.confidence ?? 1) >= minConfidence)
+      .slice(0, maxMemories);
+
+    const topics = facts.length || memories.length || !ctx.digest
+      ? []
+      : Object.entries(ctx.digest.topics).sort(([a, x], [b, y]) => y - x || a.localeCompare(b)).slice(0, 3).map(([t]) => t);
+
+    return { intent, facts, memories, topics };
+  }
+
+  async reason(query: string, ctx: LocalReasoningContext, signal?: AbortSignal): Promise<ReasoningResult> {
+    if (signal?.aborted) throw abortError(signal);
+    const evidence = this.gather(query, ctx);
+    const { facts, memories } = evidence;
+
+    const grounding = [...facts.map(f => f.score * f.confidence), ...memories.map(h => h.score)];
+    const best = Math.max(0, ...grounding);
+    const confidence = grounding.length ? Math.min(0.9, 0.4 + 0.5 * best) : 0.2;
+    const hemisphere = facts.length && !memories.length ? 'alpha' : memories.length && !facts.length ? 'omega' : 'fused';
+
+    return {
+      response: this.templates[evidence.intent](query, evidence),
+      confidence: Math.round(confidence * 100) / 100,
+      hemisphere,
+      reasoning_trace: [
+        'SOVEREIGN_MODE',
+        `LOCAL_REASONER:${this.id}`,
+        `INTENT:${evidence.intent}`,
+        `ALPHA:${facts.length} knowledge facts${facts.length ? ` (${facts.map(f => f.key).join(', ')})` : ''}`,
+        `OMEGA:${memories.length} memories${memories.length ? ` (${memories.map(h => h.memory.memoryType).join(', ')})` : ''}`,
+        `GOVERNANCE:${ctx.governanceMode}`
+      ],
+      // Built only from the user's own stored data and fixed templates, but no GOV/DVAP verdict exists offline.
+      governance_validated: false
+    };
+  }
+}
+
+/** ---------- Model hook ---------- **/
+
+/** An on-device model, e.g. a llama.cpp or ONNX build running in WASM or a worker. */
+export interface LocalModelRuntime {
+  readonly id: string;
+  generate(prompt: string, opts: { maxTokens: number; signal?: AbortSignal }): Promise<string>;
+}
+
+/** Prompt for an on-device model: governance, grounding facts and memories, the last turns, then the query. */
+export function buildLocalPrompt(query: string, ctx: LocalReasoningContext): string {
+  const knowledge = Object.entries(ctx.knowledge).map(([key, e]) => `- ${humanize(key)}: ${formatValue(e.value)}`);
+  const memories = ctx.memories.map(h => `- [${h.memory.memoryType}] ${h.memory.content}`);
+  const turns = ctx.recentTurns.slice(-6).map(t => `${t.role}: ${t.content}`);
+  return [
+    `You are the offline reasoning core of satellite ${ctx.satelliteId}. Governance mode: ${ctx.governanceMode}.`,
+    'Answer only from the context below; say so when it is not enough.',
+    knowledge.length ? `Known about the user:\n${knowledge.join('\n')}` : '',
+    memories.length ? `Relevant memories:\n${memories.join('\n')}` : '',
+    ctx.digest?.summary ? `Earlier: ${ctx.digest.summary}` : '',
+    turns.length ? `Conversation:\n${turns.join('\n')}` : '',
+    `user: ${query}\nassistant:`
+  ].filter(Boolean).join('\n\n');
+}
+
+export class ModelReasoner implements LocalReasoner {
+  readonly id: string;
+
+  constructor(
+    private readonly runtime: LocalModelRuntime,
+    private readonly fallback: LocalReasoner = new RuleBasedReasoner(),
+    private readonly maxTokens = 512
+  ) {
+    this.id = `model:${runtime.id}`;
+  }
+
+  async reason(query: string, ctx: LocalReasoningContext, signal?: AbortSignal): Promise<ReasoningResult> {
+    if (signal?.aborted) throw abortError(signal);
+    try {
+      const text = (await this.runtime.generate(buildLocalPrompt(query, ctx), { maxTokens: this.maxTokens, signal })).trim();
+      if (!text) throw new Error('EMPTY_GENERATION');
+      return {
+        response: text,
+        confidence: 0.6,
+        hemisphere: 'fused',
+        reasoning_trace: [
+          'SOVEREIGN_MODE',
+          `LOCAL_REASONER:${this.id}`,
+          `CONTEXT:${Object.keys(ctx.knowledge).length} knowledge facts, ${ctx.memories.length} memories`,
+          `GOVERNANCE:${ctx.governanceMode}`
+        ],
+        governance_validated: false   // no GOV/DVAP verdict exists offline
+      };
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.warn(`[LocalReasoner] ${this.id} failed, using ${this.fallback.id}:`, e);
+      const result = await this.fallback.reason(query, ctx, signal);
+      return { ...result, reasoning_trace: [...result.reasoning_trace, `MODEL_FALLBACK:${this.id}`] };
+    }
+  }
+}
+
+/** ---------- Telemetry ---------- **/
+
+/** Runs a local reasoner and records it on the satellite's hemisphere telemetry like any remote request. */
+export async function reasonLocally(
+  reasoner: LocalReasoner,
+  query: string,
+  ctx: LocalReasoningContext,
+  signal?: AbortSignal
+): Promise<ReasoningResult> {
+  const started = Date.now();
+  const settle = getHemisphereTelemetry(ctx.satelliteId).begin();
+  try {
+    const result = await reasoner.reason(query, ctx, signal);
+    settle(extractReasoningMetrics({ confidence: result.confidence, dominant_hemisphere: result.hemisphere }, Date.now() - started, 'local'));
+    return result;
+  } catch (e) {
+    settle(signal?.aborted ? null : failedReasoningMetrics(Date.now() - started, 'local'));
+    throw e;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Memory Recall - in-browser BM25 index over edge memories, with optional semantic re-scoring
+ *
+ * Keyword scoring is BM25 over memory content and topic tags. When an embedding function is supplied, each hit is
+ * blended with the cosine similarity between the query and memory embeddings; embeddings are cached by content, so
+ * only new memories are embedded. A failing embedder degrades to keyword-only recall.
+ */
+
+export interface RecallableMemory {
+  content: string;
+  memoryType: string;
+  topicTags?: string[];
+}
+
+/** Returns one vector per input text, in order. */
+export type EmbeddingFunction = (texts: string[]) => Promise<number[][]>;
+
+export interface RecallOptions {
+  topK?: number;                 // default 5
+  tags?: string[];               // keep memories carrying at least one of these tags
+  types?: string[];              // keep memories of these memoryTypes
+  minScore?: number;             // drop hits scoring below this (after blending)
+  semanticWeight?: number;       // 0..1 share of the blended score from embeddings; default 0.5
+}
+
+export interface RecallHit<M extends RecallableMemory> {
+  memory: M;
+  score: number;                 // blended, 0..1
+  bm25: number;                  // raw BM25
+  semantic: number | null;       // cosine similarity, null without an embedder
+}
+
+export interface Bm25Params {
+  k1: number;
+  b: number;
+}
+
+export const DEFAULT_BM25_PARAMS: Bm25Params = { k1: 1.2, b: 0.75 };
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i', 'in', 'is', 'it',
+  'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'were', 'what',
+  'when', 'which', 'who', 'will', 'with', 'you', 'your'
+]);
+
+/** Lowercased, diacritics folded, split on anything that is not a letter or digit, stopwords dropped. */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+interface IndexedDoc {
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+export class MemoryIndex<M extends RecallableMemory> {
+  private readonly docs: IndexedDoc[];
+  private readonly docFreq = new Map<string, number>();
+  private readonly avgLength: number;
+
+  constructor(readonly memories: readonly M[], private readonly params: Bm25Params = DEFAULT_BM25_PARAMS) {
+    this.docs = memories.map(m => {
+      const termFreq = new Map<string, number>();
+      const tokens = [...tokenize(m.content), ...(m.topicTags ?? []).flatMap(tokenize)];
+      tokens.forEach(t => termFreq.set(t, (termFreq.get(t) ?? 0) + 1));
+      termFreq.forEach((_, t) => this.docFreq.set(t, (this.docFreq.get(t) ?? 0) + 1));
+      return { termFreq, length: tokens.length };
+    });
+    this.avgLength = this.docs.reduce((sum, d) => sum + d.length, 0) / Math.max(1, this.docs.length);
+  }
+
+  /** Raw BM25 score of every memory for the query. */
+  bm25(query: string): number[] {
+    const terms = [...new Set(tokenize(query))];
+    const n = this.docs.length;
+    const { k1, b } = this.params;
+    return this.docs.map(doc => terms.reduce((score, t) => {
+      const tf = doc.termFreq.get(t);
+      if (!tf) return score;
+      const df = this.docFreq.get(t) ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      return score + idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * (doc.length / (this.avgLength || 1))));
+    }, 0));
+  }
+
+  async search(
+    query: string,
+    opts: RecallOptions & { embed?: EmbeddingFunction; embeddingCache?: Map<string, number[]> } = {}
+  ): Promise<RecallHit<M>[]> {
+    const { topK = 5, tags, types, minScore = 0, semanticWeight = 0.5, embed, embeddingCache = new Map() } = opts;
+    const candidates = this.memories
+      .map((memory, i) => ({ memory, i }))
+      .filter(({ memory }) => !types?.length || types.includes(memory.memoryType))
+      .filter(({ memory }) => !tags?.length || (memory.topicTags ?? []).some(t => tags.includes(t)));
+    if (!candidates.length || !query.trim()) return [];
+
+    const raw = this.bm25(query);
+    const maxBm25 = Math.max(0, ...candidates.map(c => raw[c.i]));
+    const semantic = embed ? await this.semanticScores(query, candidates.map(c => c.memory), embed, embeddingCache) : null;
+    const weight = semantic ? Math.min(1, Math.max(0, semanticWeight)) : 0;
+
+    // Ties go to the newer memory.
+    return candidates
+      .map(({ memory, i }, j) => {
+        const keyword = maxBm25 > 0 ? raw[i] / maxBm25 : 0;
+        const sim = semantic ? semantic[j] : null;
+        const hit: RecallHit<M> = { memory, bm25: raw[i], semantic: sim, score: (1 - weight) * keyword + weight * Math.max(0, sim ?? 0) };
+        return { hit, i };
+      })
+      .filter(({ hit }) => hit.score > 0 && hit.score >= minScore)
+      .sort((a, b) => b.hit.score - a.hit.score || b.i - a.i)
+      .slice(0, topK)
+      .map(({ hit }) => hit);
+  }
+
+  private async semanticScores(
+    query: string,
+    memories: M[],
+    embed: EmbeddingFunction,
+    cache: Map<string, number[]>
+  ): Promise<number[] | null> {
+    try {
+      const missing = [...new Set(memories.map(m => m.content).filter(c => !cache.has(c)))];
+      const vectors = await embed([query, ...missing]);
+      if (vectors.length !== missing.length + 1) throw new Error(`expected ${missing.length + 1} embeddings, got ${vectors.length}`);
+      missing.forEach((content, i) => cache.set(content, vectors[i + 1]));
+      // Forget memories that have left the index (evicted by retention).
+      const live = new Set(this.memories.map(m => m.content));
+      [...cache.keys()].filter(c => !live.has(c)).forEach(c => cache.delete(c));
+      return memories.map(m => cosine(vectors[0], cache.get(m.content)!));
+    } catch (e) {
+      console.warn('[MemoryRecall] Embedding failed, using keyword recall only:', e);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Memory Retention - importance-aware eviction for edge memories
+ *
+ * Scores each memory on importance, recency, confidence and topic relevance, keeps the best ones that fit the item
+ * and byte budgets (in their original order), and can fold the rest into a compact rolling digest.
+ */
+
+export interface RetainableMemory {
+  content: string;
+  memoryType: string;
+  importance: string;
+  confidence: number;
+  topicTags?: string[];
+  createdAt?: string;   // ISO; memories without one are aged by position
+}
+
+export interface RetentionPolicy {
+  max_items: number;
+  max_bytes: number;              // UTF-8 size of the retained set as JSON
+  half_life_ms: number;           // recency score halves every half_life_ms
+  weights: {
+    importance: number;
+    recency: number;
+    confidence: number;
+    topics: number;
+  };
+  summarize_evicted: boolean;     // fold evicted memories into the digest instead of dropping them
+  digest_highlights: number;      // snippets kept in the digest
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  max_items: 50,
+  max_bytes: 64 * 1024,
+  half_life_ms: 7 * 24 * 60 * 60 * 1000,
+  weights: { importance: 0.4, recency: 0.3, confidence: 0.15, topics: 0.15 },
+  summarize_evicted: true,
+  digest_highlights: 5
+};
+
+export type RetentionPolicyOverrides = Partial<Omit<RetentionPolicy, 'weights'>> & {
+  weights?: Partial<RetentionPolicy['weights']>;
+};
+
+export function resolveRetentionPolicy(overrides: RetentionPolicyOverrides = {}): RetentionPolicy {
+  return {
+    ...DEFAULT_RETENTION_POLICY,
+    ...overrides,
+    weights: { ...DEFAULT_RETENTION_POLICY.weights, ...overrides.weights }
+  };
+}
+
+export const IMPORTANCE_SCORES: Record<string, number> = {
+  critical: 1,
+  high: 0.75,
+  medium: 0.5,
+  low: 0.25
+};
+
+export const DEFAULT_MEMORY_CONFIDENCE = 0.5;
+
+export interface MemoryDigest {
+  count: number;                     // memories folded in so far
+  topics: Record<string, number>;    // tag -> evicted memories carrying it
+  highlights: string[];              // snippets of the highest-scoring evicted memories, best first
+  from_utc: string | null;
+  to_utc: string | null;
+  summary: string;                   // one line, ready to drop into a prompt
+}
+
+export interface RetentionResult<M extends RetainableMemory> {
+  retained: M[];
+  evicted: M[];
+  digest: MemoryDigest | null;
+}
+
+const SNIPPET_CHARS = 120;
+const SUMMARY_TOPICS = 5;
+
+const byteSize = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+/** ---------- Scoring ---------- **/
+
+/**
+ * Topic relevance: how often a memory's tags recur across the set, with tags from the active conversation counting
+ * as maximally relevant. Memories without tags score 0.
+ */
+function topicScorer(memories: RetainableMemory[], activeTopics: string[]): (m: RetainableMemory) => number {
+  const counts = new Map<string, number>();
+  memories.forEach(m => (m.topicTags ?? []).forEach(t => counts.set(t, (counts.get(t) ?? 0) + 1)));
+  const max = Math.max(1, ...counts.values());
+  const active = new Set(activeTopics);
+  return m => Math.max(0, ...(m.topicTags ?? []).map(t => (active.has(t) ? 1 : (counts.get(t) ?? 0) / max)));
+}
+
+export function scoreMemories<M extends RetainableMemory>(
+  memories: M[],
+  policy: RetentionPolicy = DEFAULT_RETENTION_POLICY,
+  opts: { now?: number; activeTopics?: string[] } = {}
+): number[] {
+  const now = opts.now ?? Date.now();
+  const topics = topicScorer(memories, opts.activeTopics ?? []);
+  const { weights } = policy;
+
+  return memories.map((m, i) => {
+    const created = m.createdAt ? Date.parse(m.createdAt) : NaN;
+    // Undated memories are treated as evenly spaced over one half-life, oldest first.
+    const age = Number.isFinite(created)
+      ? Math.max(0, now - created)
+      : ((memories.length - 1 - i) / Math.max(1, memories.length - 1)) * policy.half_life_ms;
+    const recency = Math.pow(0.5, age / policy.half_life_ms);
+    const importance = IMPORTANCE_SCORES[m.importance] ?? IMPORTANCE_SCORES.medium;
+    const confidence = Math.min(1, Math.max(0, m.confidence));
+    return weights.importance * importance + weights.recency * recency + weights.confidence * confidence + weights.topics * topics(m);
+  });
+}
+
+/** ---------- Digest ---------- **/
+
+function renderSummary(d: Omit<MemoryDigest, 'summary'>): string {
+  const topics = Object.entries(d.topics)
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .slice(0, SUMMARY_TOPICS)
+    .map(([t, n]) => `${t} (${n})`);
+  const parts = [`${d.count} earlier memories`];
+  if (topics.length) parts.push(`topics: ${topics.join(', ')}`);
+  if (d.highlights.length) parts.push(`notable: ${d.highlights.join(' | ')}`);
+  return parts.join('; ');
+}
+
+/** Folds evicted memories (best first) into the rolling digest. */
+export function foldIntoDigest(
+  digest: MemoryDigest | null,
+  evicted: RetainableMemory[],
+  highlights = DEFAULT_RETENTION_POLICY.digest_highlights
+): MemoryDigest | null {
+  if (!evicted.length) return digest;
+  const topics = { ...(digest?.topics ?? {}) };
+  evicted.forEach(m => (m.topicTags ?? []).forEach(t => (topics[t] = (topics[t] ?? 0) + 1)));
+
+  const dates = evicted.map(m => m.createdAt).filter((d): d is string => !!d);
+  if (digest?.from_utc) dates.push(digest.from_utc);
+  if (digest?.to_utc) dates.push(digest.to_utc);
+  dates.sort();
+
+  const snippets = evicted.map(m => (m.content.length > SNIPPET_CHARS ? `${m.content.slice(0, SNIPPET_CHARS - 1)}…` : m.content));
+  const next = {
+    count: (digest?.count ?? 0) + evicted.length,
+    topics,
+    highlights: [...snippets, ...(digest?.highlights ?? [])].slice(0, highlights),
+    from_utc: dates[0] ?? null,
+    to_utc: dates[dates.length - 1] ?? null
+  };
+  return { ...next, summary: renderSummary(next) };
+}
+
+/** ---------- Enforcement ---------- **/
+
+/**
+ * Keeps the highest-scoring memories that fit `max_items` and `max_bytes`, in their original order. Ties go to
+ * the newer memory. Evicted memories come back best first and, if the policy says so, folded into `digest`.
+ */
+export function retainMemories<M extends RetainableMemory>(
+  memories: M[],
+  policy: RetentionPolicy = DEFAULT_RETENTION_POLICY,
+  opts: { now?: number; activeTopics?: string[]; digest?: MemoryDigest | null } = {}
+): RetentionResult<M> {
+  const scores = scoreMemories(memories, policy, opts);
+  const ranked = memories.map((_, i) => i).sort((a, b) => scores[b] - scores[a] || b - a);
+
+  const keep = new Set<number>();
+  let bytes = 2; // "[]"
+  for (const i of ranked) {
+    if (keep.size >= policy.max_items) break;
+    const size = byteSize(memories[i]) + (keep.size ? 1 : 0);
+    if (bytes + size > policy.max_bytes) continue; // a smaller, lower-ranked memory may still fit
+    keep.add(i);
+    bytes += size;
+  }
+
+  const retained = memories.filter((_, i) => keep.has(i));
+  const evicted = ranked.filter(i => !keep.has(i)).map(i => memories[i]);
+  const digest = policy.summarize_evicted
+    ? foldIntoDigest(opts.digest ?? null, evicted, policy.digest_highlights)
+    : opts.digest ?? null;
+  return { retained, evicted, digest };
+}
@@ -0,0 +1,176 @@
+/**
+ * Reasoning Governance - DualHemisphere requests as kernel-governed federation calls
+ *
+ * governanceMode maps to a RiskTier. With a kernel (typically useKernel()), every remote reasoning request runs
+ * through governedFederationCall: GOV evaluation, DVAP attestation for the manifest's DVAP tiers, replay guard and
+ * the evidence ledger. The kernel executes operation `ASK_FEDERATION` with payload `{ function, body }` through its
+ * FederationClient (createSupabaseFederationClient). Governed requests complete atomically: no partial text, since
+ * the kernel has to see the whole response before it records it. Without a kernel, requests stream ungoverned and
+ * are reported as such.
+ *
+ * A kernel that is present but not ready (booting, or failed to boot) refuses the request rather than letting it
+ * fall through to an ungoverned path. Strict mode fails closed: it needs a kernel whose manifest requires DVAP for
+ * its tier, and a refused request is never retried on another path.
+ */
+
+import { omitUndefinedMembers } from './federation/canonical';
+import type { RiskTier } from './federation/FederatedCapabilityKernel';
+import type { KernelContextValue } from './KernelProvider';
+import type { ReasoningResult } from './DualHemisphereCore';
+import type { GovernanceMode } from './localReasoner';
+import {
+  asRecord,
+  extractReasoningMetrics,
+  failedReasoningMetrics,
+  getHemisphereTelemetry,
+  num,
+  oneOf,
+  type ReasoningMetrics
+} from './hemisphereTelemetry';
+import { abortError, streamReasoningStage, type ReasoningStreamEvent } from './reasoningStream';
+import { ASK_FEDERATION } from './supabaseFederationClient';
+
+export const GOVERNANCE_RISK_TIERS: Record<GovernanceMode, RiskTier> = {
+  autonomous: 'T0_LOW',
+  standard: 'T1_STANDARD',
+  strict: 'T2_HIGH_STAKES'
+};
+
+export const REASONING_OPERATION = ASK_FEDERATION;
+
+export type ReasoningKernel = Pick<KernelContextValue, 'status' | 'manifest' | 'governedFederationCall'>;
+
+export interface GovernanceVerdict {
+  status: 'unguarded' | 'validated' | 'attested' | 'denied';
+  risk_tier: RiskTier;
+  gov: 'ALLOW' | 'DENY' | null;                          // null = not evaluated
+  dvap: 'ATTESTED' | 'REFUSED' | 'NOT_REQUIRED' | null;  // null = not evaluated
+  reason?: string;
+  uva_hash?: string;
+  input_frame_hash?: string;
+}
+
+/** The kernel (or strict mode's preconditions) refused the request; it was not executed and must not be retried elsewhere. */
+export class GovernanceBlockedError extends Error {
+  constructor(readonly verdict: GovernanceVerdict) {
+    super(`Reasoning blocked by governance: ${verdict.reason ?? 'UNKNOWN'}`);
+    this.name = 'GovernanceBlockedError';
+  }
+}
+
+export const isGovernanceValidated = (verdict: GovernanceVerdict | null | undefined): boolean =>
+  verdict?.status === 'validated' || verdict?.status === 'attested';
+
+const denied = (risk_tier: RiskTier, reason: string, gov: GovernanceVerdict['gov'] = null, dvap: GovernanceVerdict['dvap'] = null): GovernanceVerdict =>
+  ({ status: 'denied', risk_tier, gov, dvap, reason });
+
+/** Kernel errors that mean the request was refused before it ran (see governedFederationCall). */
+function refusal(error: string, tier: RiskTier): GovernanceVerdict | null {
+  if (error.startsWith('GOV_DENY:')) return denied(tier, error.slice('GOV_DENY:'.length), 'DENY');
+  if (error.startsWith('DVAP_REFUSED:')) return denied(tier, error.slice('DVAP_REFUSED:'.length), 'ALLOW', 'REFUSED');
+  const refused = ['KERNEL_NOT_READY', 'HUMAN_CONFIRMATION_REQUIRED', 'REPLAY_DETECTED', 'OP_NOT_ALLOWED'].includes(error)
+    || error.startsWith('CONFIRMATION_')
+    || error.startsWith('NOT_CANONICAL:');
+  return refused ? denied(tier, error) : null;
+}
+
+export interface ReasoningStageOutcome {
+  data: unknown;
+  verdict: GovernanceVerdict;
+}
+
+/**
+ * One chat / sovereign-fallback request under `mode`: governed through the kernel when there is one, otherwise
+ * streamed ungoverned (not allowed in strict mode). Recorded on the satellite's hemisphere telemetry either way.
+ */
+export async function* runReasoningStage(
+  kernel: ReasoningKernel | undefined,
+  satelliteId: string,
+  source: 'federated' | 'sovereign',
+  body: Record<string, unknown>,
+  mode: GovernanceMode,
+  signal?: AbortSignal
+): AsyncGenerator<ReasoningStreamEvent, ReasoningStageOutcome> {
+  const risk_tier = GOVERNANCE_RISK_TIERS[mode];
+  if (!kernel) {
+    if (mode === 'strict') throw new GovernanceBlockedError(denied(risk_tier, 'KERNEL_REQUIRED'));
+    const data = yield* streamReasoningStage(satelliteId, source, body, signal);
+    return { data, verdict: { status: 'unguarded', risk_tier, gov: null, dvap: null } };
+  }
+
+  if (kernel.status !== 'ready') throw new GovernanceBlockedError(denied(risk_tier, 'KERNEL_NOT_READY'));
+  const attest = kernel.manifest?.governance.dvap_required_for_risk_tiers.includes(risk_tier) ?? false;
+  if (mode === 'strict' && !attest) throw new GovernanceBlockedError(denied(risk_tier, 'DVAP_NOT_ENFORCED'));
+
+  const started = Date.now();
+  const settle = getHemisphereTelemetry(satelliteId).begin();
+  let metrics: ReasoningMetrics | null = null;
+  try {
+    if (signal?.aborted) throw abortError(signal);
+    const res = await kernel.governedFederationCall<unknown>({
+      trace_id: crypto.randomUUID(),
+      action_id: crypto.randomUUID(),
+      operation: REASONING_OPERATION,
+      payload: omitUndefinedMembers({ function: source === 'federated' ? 'chat' : 'sovereign-fallback', body }),
+      risk_tier,
+      extensions: { satellite_id: satelliteId, governance_mode: mode, reasoning_path: source },
+      signal
+    });
+    if (signal?.aborted) throw abortError(signal);
+    if (!res.ok) {
+      const refused = refusal(res.error ?? '', risk_tier);
+      if (refused) throw new GovernanceBlockedError(refused);
+      throw new Error(res.error ?? 'FEDERATION_ERROR');
+    }
+    if (mode === 'strict' && !res.uva_hash) throw new GovernanceBlockedError(denied(risk_tier, 'DVAP_ATTESTATION_MISSING', 'ALLOW'));
+
+    metrics = extractReasoningMetrics(res.result, Date.now() - started, source);
+    return {
+      data: res.result,
+      verdict: {
+        status: attest ? 'attested' : 'validated',
+        risk_tier,
+        gov: 'ALLOW',
+        dvap: attest ? 'ATTESTED' : 'NOT_REQUIRED',
+        uva_hash: res.uva_hash,
+        input_frame_hash: res.input_frame_hash
+      }
+    };
+  } catch (e) {
+    // Refusals and cancellations are not reasoning failures; they leave no sample.
+    if (!signal?.aborted && !(e instanceof GovernanceBlockedError)) metrics = failedReasoningMetrics(Date.now() - started, source);
+    throw e;
+  } finally {
+    settle(metrics);
+  }
+}
+
+/**
+ * ReasoningResult from a final response body, with the defaults each path has always used. `governance_validated`
+ * holds only when the kernel allowed (and, for DVAP tiers, attested) the request and the server did not object.
+ */
+export function toReasoningResult(data: unknown, source: 'federated' | 'sovereign', verdict: GovernanceVerdict): ReasoningResult {
+  const body = asRecord(data);
+  const governance_validated = isGovernanceValidated(verdict) && body.governance_validated !== false;
+  const response = typeof body.response === 'string' ? body.response : '';
+  const trace = Array.isArray(body.reasoning_trace)
+    ? body.reasoning_trace.filter((step): step is string => typeof step === 'string')
+    : null;
+  return source === 'federated'
+    ? {
+        response,
+        confidence: num(body.confidence) || 0.8,
+        hemisphere: oneOf(['alpha', 'omega', 'fused'] as const, body.dominant_hemisphere) ?? 'fused',
+        reasoning_trace: trace ?? [],
+        governance_validated,
+        governance: verdict
+      }
+    : {
+        response,
+        confidence: num(body.confidence) || 0.75,
+        hemisphere: 'fused',
+        reasoning_trace: trace ?? ['SOVEREIGN_MODE'],
+        governance_validated,
+        governance: verdict
+      };
+}
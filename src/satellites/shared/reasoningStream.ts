@@ -0,0 +1,156 @@
+/**
+ * Reasoning Stream - incremental output from the chat and sovereign-fallback functions
+ *
+ * Requests carry `stream: true`. A streaming backend answers with text/event-stream, one JSON object per `data:`
+ * line: `{ delta }` for partial text, `{ trace }` for an interim reasoning step and `{ final }` with the complete
+ * response body (what the non-streaming call returns). OpenAI-style `choices[0].delta.content` chunks and a
+ * `[DONE]` sentinel are accepted too. A backend that ignores `stream` returns plain JSON, which becomes one final chunk.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { ReasoningResult } from './DualHemisphereCore';
+import {
+  asRecord,
+  extractReasoningMetrics,
+  failedReasoningMetrics,
+  getHemisphereTelemetry,
+  type ReasoningMetrics,
+  type ReasoningSource
+} from './hemisphereTelemetry';
+
+export type ReasoningStreamEvent =
+  | { type: 'delta'; text: string; source: ReasoningSource }
+  | { type: 'trace'; step: string; source: ReasoningSource }
+  | { type: 'fallback'; reason: string }   // a path failed: discard its partial text, the next path's output follows
+  | { type: 'final'; result: ReasoningResult };
+
+type StreamChunk = { delta: string } | { trace: string } | { final: unknown };
+
+export function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/** ---------- SSE ---------- **/
+
+/** Yields the `data:` payload of each server-sent event. Aborting the signal cancels the underlying body. */
+export async function* readEventStream(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const onAbort = () => { reader.cancel().catch(() => undefined); };
+  signal?.addEventListener('abort', onAbort);
+
+  const payload = (event: string) => event
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''))
+    .join('\n');
+
+  let buffer = '';
+  try {
+    for (;;) {
+      if (signal?.aborted) throw abortError(signal);
+      const { value, done } = await reader.read();
+      if (signal?.aborted) throw abortError(signal);
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary: RegExpExecArray | null;
+      while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+        const data = payload(buffer.slice(0, boundary.index));
+        buffer = buffer.slice(boundary.index + boundary[0].length);
+        if (data) yield data;
+      }
+    }
+    const rest = payload(buffer + decoder.decode());
+    if (rest) yield rest;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    reader.releaseLock();
+  }
+}
+
+function toChunk(raw: string): StreamChunk | 'done' | null {
+  if (raw.trim() === '[DONE]') return 'done';
+  const msg = asRecord(JSON.parse(raw));
+  if (msg.error) {
+    const { message } = asRecord(msg.error);
+    throw new Error(typeof msg.error === 'string' ? msg.error : typeof message === 'string' ? message : 'STREAM_ERROR');
+  }
+  if (msg.final !== undefined) return { final: msg.final };
+  if (typeof msg.delta === 'string') return { delta: msg.delta };
+  if (typeof msg.trace === 'string') return { trace: msg.trace };
+  const choice = Array.isArray(msg.choices) ? msg.choices[0] : undefined;
+  const content = asRecord(asRecord(choice).delta).content;
+  return typeof content === 'string' ? { delta: content } : null;
+}
+
+const isStream = (data: unknown): data is Response =>
+  typeof Response !== 'undefined' && data instanceof Response && data.body !== null;
+
+/**
+ * Invokes an edge function in streaming mode and yields normalized chunks; always ends with exactly one
+ * `{ final }` (synthesized from the deltas and trace steps when the backend sends none).
+ */
+export async function* streamFunction(
+  name: 'chat' | 'sovereign-fallback',
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): AsyncGenerator<StreamChunk> {
+  const { data, error } = await supabase.functions.invoke(name, { body: { ...body, stream: true }, signal });
+  if (signal?.aborted) throw abortError(signal);
+  if (error) throw error;
+  if (!isStream(data)) {
+    yield { final: data };
+    return;
+  }
+
+  let text = '';
+  const trace: string[] = [];
+  const streamed = () => (trace.length ? { response: text, reasoning_trace: trace } : { response: text });
+  for await (const raw of readEventStream(data.body!, signal)) {
+    const chunk = toChunk(raw);
+    if (chunk === 'done') break;
+    if (!chunk) continue;
+    if ('final' in chunk) {
+      yield { final: { ...streamed(), ...asRecord(chunk.final) } };
+      return;
+    }
+    if ('delta' in chunk) text += chunk.delta;
+    else trace.push(chunk.trace);
+    yield chunk;
+  }
+  yield { final: streamed() };
+}
+
+/** ---------- Reasoning stages ---------- **/
+
+/**
+ * Streams one chat / sovereign-fallback request as ReasoningStreamEvents and returns the final response body.
+ * The request is recorded on the satellite's hemisphere telemetry; a cancelled request leaves no sample.
+ */
+export async function* streamReasoningStage(
+  satelliteId: string,
+  source: ReasoningSource,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): AsyncGenerator<ReasoningStreamEvent, unknown> {
+  const started = Date.now();
+  const settle = getHemisphereTelemetry(satelliteId).begin();
+  let metrics: ReasoningMetrics | null = null;
+  try {
+    for await (const chunk of streamFunction(source === 'federated' ? 'chat' : 'sovereign-fallback', body, signal)) {
+      if ('final' in chunk) {
+        metrics = extractReasoningMetrics(chunk.final, Date.now() - started, source);
+        return chunk.final;
+      }
+      yield 'delta' in chunk
+        ? { type: 'delta', text: chunk.delta, source }
+        : { type: 'trace', step: chunk.trace, source };
+    }
+    throw new Error('STREAM_ENDED_WITHOUT_RESULT');
+  } catch (e) {
+    if (!signal?.aborted) metrics = failedReasoningMetrics(Date.now() - started, source);
+    throw e;
+  } finally {
+    settle(metrics); // also runs when the consumer stops iterating early
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Supabase Federation Client - the kernel's FederationClient for edge functions
+ *
+ * Executes operation `ASK_FEDERATION` with payload `{ function, body }`: invokes that Supabase edge function with
+ * that body and returns the response body as `result`. The kernel governs the call (GOV, DVAP, replay guard, ledger)
+ * before it gets here, so this is the only place governed requests reach the network. Only allow-listed functions
+ * can be invoked, so a payload cannot reach an edge function the satellites never call.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { FederationClient } from './federation/FederatedCapabilityKernel';
+
+export const ASK_FEDERATION = 'ASK_FEDERATION';
+
+/** Edge functions the satellites route through the kernel. */
+export const DEFAULT_FEDERATION_FUNCTIONS: readonly string[] = ['chat', 'sovereign-fallback', 'neural-link-ipc'];
+
+export interface FunctionCallPayload {
+  function: string;
+  body: Record<string, unknown>;
+}
+
+const isBody = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const createSupabaseFederationClient = (
+  functions: readonly string[] = DEFAULT_FEDERATION_FUNCTIONS
+): FederationClient => ({
+  async request<T = unknown>({ operation, payload, signal }: Parameters<FederationClient['request']>[0]) {
+    if (operation !== ASK_FEDERATION) return { ok: false, error: `UNSUPPORTED_OPERATION:${operation}` };
+    const { function: name, body } = payload;
+    if (typeof name !== 'string' || !isBody(body)) return { ok: false, error: 'INVALID_PAYLOAD' };
+    if (!functions.includes(name)) return { ok: false, error: `FUNCTION_NOT_ALLOWED:${name}` };
+
+    const { data, error } = await supabase.functions.invoke(name, { body, signal });
+    if (error) return { ok: false, error: error.message || 'FUNCTION_ERROR', source: name };
+    return { ok: true, result: data as T, source: name };
+  }
+});
+
+export default createSupabaseFederationClient;
@@ -5,8 +5,27 @@
  * for edge agents. Supports both federated and sovereign modes.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { getOfflineSyncQueue } from './OfflineSyncQueue';
+import { readEdgeCache, writeEdgeCache } from './edgeMemoryCache';
+import { asRecord, num } from './hemisphereTelemetry';
+import {
+  DEFAULT_MEMORY_CONFIDENCE,
+  resolveRetentionPolicy,
+  retainMemories,
+  type MemoryDigest,
+  type RetentionPolicyOverrides
+} from './memoryRetention';
+import { MemoryIndex, type EmbeddingFunction, type RecallHit, type RecallOptions } from './memoryRecall';
+import {
+  acknowledgeKnowledgeWrite,
+  mergeKnowledge,
+  observeKnowledge,
+  type KnowledgeConflictResolver,
+  type KnowledgeEntry,
+  type VectorClock
+} from './knowledgeMerge';
 
 interface UserMemory {
   content: string;
@@ -14,17 +33,31 @@ interface UserMemory {
   importance: string;
   confidence: number;
   topicTags?: string[];
+  createdAt?: string;
 }
 
 interface UserKnowledge {
-  [key: string]: {
-    value: unknown;
-    confidence: number;
-    observations: number;
-    type: string;
-  };
+  [key: string]: KnowledgeEntry;
+}
+
+// edge-agent-memory's acknowledgement of an evolve_knowledge write (`evolved` in its response).
+interface KnowledgeAck {
+  confidence_trajectory?: number[];
+  observations_count?: number;
 }
 
+const readKnowledgeAck = (data: unknown): KnowledgeAck | null => {
+  const evolved = asRecord(data).evolved;
+  if (!evolved) return null;
+  const { confidence_trajectory, observations_count } = asRecord(evolved);
+  return {
+    confidence_trajectory: Array.isArray(confidence_trajectory)
+      ? confidence_trajectory.map(num).filter((n): n is number => n !== null)
+      : undefined,
+    observations_count: num(observations_count) ?? undefined
+  };
+};
+
 interface SessionState {
   conversationSummary?: string;
   activeContext: Record<string, unknown>;
@@ -44,20 +77,30 @@ interface EdgeMemoryState {
   isLoading: boolean;
   isOnline: boolean;
   lastSyncAt: Date | null;
+  pendingWrites: number;   // queued server writes not yet applied
+  memoryDigest: MemoryDigest | null;   // summary of memories evicted by retention
 }
 
-const LOCAL_STORAGE_KEY = 'edge_memory_cache';
+interface EdgeMemoryOptions {
+  onKnowledgeConflict?: KnowledgeConflictResolver;   // concurrent edits with different values; default is HLC last-writer-wins
+  retention?: RetentionPolicyOverrides;               // memory budget and scoring; see memoryRetention
+  embed?: EmbeddingFunction;                          // enables semantic re-scoring in recall()
+}
+
+type NewMemory = Omit<UserMemory, 'confidence'> & { confidence?: number };
 
 export const useEdgeMemory = (
   satelliteId: string,
-  sessionId?: string
+  sessionId?: string,
+  options: EdgeMemoryOptions = {}
 ): EdgeMemoryState & {
-  storeMemory: (memory: Omit<UserMemory, 'confidence'>) => Promise<void>;
+  storeMemory: (memory: NewMemory) => Promise<void>;
   evolveKnowledge: (key: string, value: unknown, type?: string) => Promise<void>;
   updateSession: (updates: Partial<SessionState>) => Promise<void>;
   extractInsights: (conversation: { role: string; content: string }[]) => Promise<void>;
   rehydrate: () => Promise<void>;
   getContext: () => EdgeMemoryState;
+  recall: (query: string, opts?: RecallOptions) => Promise<RecallHit<UserMemory>[]>;
 } => {
   const [state, setState] = useState<EdgeMemoryState>({
     memories: [],
@@ -67,17 +110,30 @@ export const useEdgeMemory = (
     greeting: 'Hello',
     isLoading: true,
     isOnline: true,
-    lastSyncAt: null
+    lastSyncAt: null,
+    pendingWrites: 0,
+    memoryDigest: null
   });
 
   const userIdRef = useRef<string | null>(null);
+  const [queueUserId, setQueueUserId] = useState<string | null>(null); // whose sync queue to follow
   const currentSessionId = useRef(sessionId || crypto.randomUUID());
+  const knowledgeRef = useRef<UserKnowledge>({});
+  const conflictResolverRef = useRef(options.onKnowledgeConflict);
+  conflictResolverRef.current = options.onKnowledgeConflict;
+  const retentionRef = useRef(resolveRetentionPolicy(options.retention));
+  retentionRef.current = resolveRetentionPolicy(options.retention);
+  const embedRef = useRef(options.embed);
+  embedRef.current = options.embed;
+  const embeddingCache = useRef(new Map<string, number[]>());
+  const retentionDirty = useRef(false); // storeMemory changed memories/digest; persisted once the state commits
 
   useEffect(() => {
     const initUser = async () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
         userIdRef.current = user.id;
+        setQueueUserId(user.id);
         await rehydrateInternal(user.id);
       }
       setState(prev => ({ ...prev, isLoading: false }));
@@ -88,9 +144,14 @@ export const useEdgeMemory = (
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       if (session?.user) {
         userIdRef.current = session.user.id;
+        setQueueUserId(session.user.id);
         rehydrateInternal(session.user.id);
       } else {
+        // Signed out: drop the account's data from memory before falling back to the anonymous cache.
         userIdRef.current = null;
+        setQueueUserId(null);
+        knowledgeRef.current = {};
+        setState(prev => ({ ...prev, memories: [], knowledge: {}, session: null, isReturningUser: false, pendingWrites: 0 }));
         loadFromLocalStorage();
       }
     });
@@ -98,16 +159,18 @@ export const useEdgeMemory = (
     return () => subscription.unsubscribe();
   }, [satelliteId]);
 
-  const loadFromLocalStorage = useCallback(() => {
+  // The cache is encrypted per user (see edgeMemoryCache); a snapshot from another account simply reads as empty.
+  const loadFromLocalStorage = useCallback(async () => {
     try {
-      const cached = localStorage.getItem(`${LOCAL_STORAGE_KEY}_${satelliteId}`);
+      const cached = await readEdgeCache(satelliteId, userIdRef.current);
       if (cached) {
-        const parsed = JSON.parse(cached);
+        knowledgeRef.current = (cached.knowledge as UserKnowledge) || {};
         setState(prev => ({
           ...prev,
-          memories: parsed.memories || [],
-          knowledge: parsed.knowledge || {},
-          session: parsed.session || null,
+          memories: (cached.memories as UserMemory[]) || [],
+          knowledge: knowledgeRef.current,
+          session: (cached.session as SessionState) || null,
+          memoryDigest: (cached.memoryDigest as MemoryDigest) || null,
           isOnline: false,
           isLoading: false
         }));
@@ -118,16 +181,25 @@ export const useEdgeMemory = (
   }, [satelliteId]);
 
   const saveToLocalStorage = useCallback((data: Partial<EdgeMemoryState>) => {
-    try {
-      const existing = localStorage.getItem(`${LOCAL_STORAGE_KEY}_${satelliteId}`);
-      const parsed = existing ? JSON.parse(existing) : {};
-      const updated = { ...parsed, ...data, savedAt: new Date().toISOString() };
-      localStorage.setItem(`${LOCAL_STORAGE_KEY}_${satelliteId}`, JSON.stringify(updated));
-    } catch (e) {
-      console.error('[useEdgeMemory] Save to local storage error:', e);
-    }
+    writeEdgeCache(satelliteId, userIdRef.current, data)
+      .catch(e => console.error('[useEdgeMemory] Save to local storage error:', e));
   }, [satelliteId]);
 
+  // Retention runs in the state updater, so what it kept (and the digest of what it evicted) is saved from here.
+  useEffect(() => {
+    if (!retentionDirty.current) return;
+    retentionDirty.current = false;
+    saveToLocalStorage({ memories: state.memories, memoryDigest: state.memoryDigest });
+  }, [state.memories, state.memoryDigest, saveToLocalStorage]);
+
+  // Knowledge is read back synchronously (clocks, merges), so the ref is the source of truth and state mirrors it.
+  const commitKnowledge = useCallback((update: (current: UserKnowledge) => UserKnowledge) => {
+    const next = update(knowledgeRef.current);
+    knowledgeRef.current = next;
+    setState(prev => ({ ...prev, knowledge: next }));
+    saveToLocalStorage({ knowledge: next });
+  }, [saveToLocalStorage]);
+
   const rehydrateInternal = async (userId: string) => {
     try {
       const { data, error } = await supabase.functions.invoke('edge-agent-memory', {
@@ -146,10 +218,22 @@ export const useEdgeMemory = (
         return;
       }
 
+      // Merge rather than overwrite, so knowledge evolved offline (here or on another device) survives.
+      const local = ((await readEdgeCache(satelliteId, userId))?.knowledge as UserKnowledge) || {};
+      const before = knowledgeRef.current;
+      const merged = await mergeKnowledge(local, data.context?.knowledge || {}, conflictResolverRef.current);
+
+      // The server keeps every memory, so nothing evicted here needs a digest.
+      const session = data.context?.session || null;
+      const { retained } = retainMemories<UserMemory>(
+        data.context?.memories || [],
+        { ...retentionRef.current, summarize_evicted: false },
+        { activeTopics: session?.pendingTopics }
+      );
+
       const newState: Partial<EdgeMemoryState> = {
-        memories: data.context?.memories || [],
-        knowledge: data.context?.knowledge || {},
-        session: data.context?.session || null,
+        memories: retained,
+        session,
         isReturningUser: data.isReturningUser,
         greeting: data.greeting,
         isOnline: true,
@@ -159,6 +243,18 @@ export const useEdgeMemory = (
 
       setState(prev => ({ ...prev, ...newState }));
       saveToLocalStorage(newState);
+      // Keys evolved while the merge was running keep their newer local copy.
+      commitKnowledge(current => {
+        const next = { ...merged.knowledge };
+        Object.keys(current).forEach(key => {
+          if (current[key] !== before[key]) next[key] = current[key];
+        });
+        return next;
+      });
+      // A resolution the queued offline writes would overwrite is written after them.
+      for (const rewrite of merged.rewrites) {
+        await evolveKnowledge(rewrite.key, rewrite.value, rewrite.type);
+      }
     } catch (e) {
       console.error('[useEdgeMemory] Rehydration exception:', e);
       loadFromLocalStorage();
@@ -166,43 +262,67 @@ export const useEdgeMemory = (
     }
   };
 
-  const storeMemory = useCallback(async (memory: Omit<UserMemory, 'confidence'>) => {
-    const userId = userIdRef.current;
-    if (!userId) {
-      setState(prev => ({
-        ...prev,
-        memories: [...prev.memories.slice(-49), { ...memory, confidence: 0.5 }]
+  // Server writes go through the signed-in user's durable queue: applied in order once reachable, never dropped.
+  useEffect(() => queueUserId ? getOfflineSyncQueue(satelliteId, queueUserId).subscribe(e => {
+    if (e.type === 'depth') {
+      setState(prev => ({ ...prev, pendingWrites: e.depth }));
+    } else if (e.type === 'retrying') {
+      setState(prev => ({ ...prev, isOnline: false }));
+    } else if (e.type === 'dead_lettered') {
+      console.error('[useEdgeMemory] Write dead-lettered:', e.op.kind, e.op.last_error);
+    } else if (e.type === 'applied') {
+      setState(prev => ({ ...prev, isOnline: true, lastSyncAt: new Date() }));
+      const evolved = e.op.kind === 'evolve_knowledge' ? readKnowledgeAck(e.data) : null;
+      const sent = e.op.body.data as { knowledgeKey?: string; knowledgeClock?: VectorClock } | undefined;
+      const key = sent?.knowledgeKey;
+      const sentClock = sent?.knowledgeClock;
+      if (!evolved || !key || !knowledgeRef.current[key]) return;
+      const trajectory = evolved.confidence_trajectory?.length ? evolved.confidence_trajectory : [0.5];
+      commitKnowledge(current => ({
+        ...current,
+        [key]: acknowledgeKnowledgeWrite(current[key], sentClock, {
+          confidence: trajectory[trajectory.length - 1],
+          observations: evolved.observations_count || 1
+        })
       }));
-      return;
     }
+  }) : undefined, [satelliteId, queueUserId, commitKnowledge]);
+
+  const storeMemory = useCallback(async (memory: NewMemory) => {
+    const stored: UserMemory = {
+      ...memory,
+      confidence: memory.confidence ?? DEFAULT_MEMORY_CONFIDENCE,
+      createdAt: memory.createdAt ?? new Date().toISOString()
+    };
+    setState(prev => {
+      const { retained, digest } = retainMemories([...prev.memories, stored], retentionRef.current, {
+        activeTopics: prev.session?.pendingTopics,
+        digest: prev.memoryDigest
+      });
+      return { ...prev, memories: retained, memoryDigest: digest };
+    });
+    retentionDirty.current = true;
+
+    const userId = userIdRef.current;
+    if (!userId) return;
 
     try {
-      await supabase.functions.invoke('edge-agent-memory', {
-        body: {
-          action: 'store_memory',
-          userId,
-          satelliteId,
-          sessionId: currentSessionId.current,
-          data: {
-            memoryType: memory.memoryType,
-            content: memory.content,
-            importance: memory.importance,
-            topicTags: memory.topicTags,
-            sourceMode: state.isOnline ? 'federated' : 'sovereign'
-          }
+      await getOfflineSyncQueue(satelliteId, userId).enqueue('store_memory', {
+        action: 'store_memory',
+        userId,
+        satelliteId,
+        sessionId: currentSessionId.current,
+        data: {
+          memoryType: memory.memoryType,
+          content: memory.content,
+          importance: memory.importance,
+          topicTags: memory.topicTags,
+          confidence: stored.confidence,
+          sourceMode: state.isOnline ? 'federated' : 'sovereign'
         }
       });
-
-      setState(prev => ({
-        ...prev,
-        memories: [...prev.memories.slice(-49), { ...memory, confidence: 0.5 }]
-      }));
     } catch (e) {
       console.error('[useEdgeMemory] Store memory error:', e);
-      setState(prev => ({
-        ...prev,
-        memories: [...prev.memories.slice(-49), { ...memory, confidence: 0.5 }]
-      }));
     }
   }, [satelliteId, state.isOnline]);
 
@@ -211,73 +331,48 @@ export const useEdgeMemory = (
     value: unknown, 
     type: string = 'preference'
   ) => {
+    // Optimistic; the server's acknowledgement later reconciles confidence/observations against the clock.
+    const entry = observeKnowledge(knowledgeRef.current[key], value, type);
+    commitKnowledge(current => ({ ...current, [key]: entry }));
+
     const userId = userIdRef.current;
-    if (!userId) {
-      setState(prev => ({
-        ...prev,
-        knowledge: {
-          ...prev.knowledge,
-          [key]: { value, confidence: 0.5, observations: 1, type }
-        }
-      }));
-      return;
-    }
+    if (!userId) return;
 
     try {
-      const { data } = await supabase.functions.invoke('edge-agent-memory', {
-        body: {
-          action: 'evolve_knowledge',
-          userId,
-          satelliteId,
-          data: {
-            knowledgeType: type,
-            knowledgeKey: key,
-            knowledgeValue: { value }
-          }
+      await getOfflineSyncQueue(satelliteId, userId).enqueue('evolve_knowledge', {
+        action: 'evolve_knowledge',
+        userId,
+        satelliteId,
+        data: {
+          knowledgeType: type,
+          knowledgeKey: key,
+          knowledgeValue: { value },
+          knowledgeClock: entry.clock,
+          knowledgeHlc: entry.hlc
         }
       });
-
-      if (data?.evolved) {
-        const trajectory = data.evolved.confidence_trajectory || [0.5];
-        const confidence = trajectory[trajectory.length - 1];
-        
-        setState(prev => ({
-          ...prev,
-          knowledge: {
-            ...prev.knowledge,
-            [key]: { 
-              value, 
-              confidence, 
-              observations: data.evolved.observations_count || 1,
-              type 
-            }
-          }
-        }));
-      }
     } catch (e) {
       console.error('[useEdgeMemory] Evolve knowledge error:', e);
     }
-  }, [satelliteId]);
+  }, [satelliteId, commitKnowledge]);
 
   const updateSession = useCallback(async (updates: Partial<SessionState>) => {
     const userId = userIdRef.current;
     if (!userId) return;
 
+    setState(prev => ({
+      ...prev,
+      session: prev.session ? { ...prev.session, ...updates } : null
+    }));
+
     try {
-      await supabase.functions.invoke('edge-agent-memory', {
-        body: {
-          action: 'sync_session',
-          userId,
-          satelliteId,
-          sessionId: currentSessionId.current,
-          data: updates
-        }
+      await getOfflineSyncQueue(satelliteId, userId).enqueue('sync_session', {
+        action: 'sync_session',
+        userId,
+        satelliteId,
+        sessionId: currentSessionId.current,
+        data: updates
       });
-
-      setState(prev => ({
-        ...prev,
-        session: prev.session ? { ...prev.session, ...updates } : null
-      }));
     } catch (e) {
       console.error('[useEdgeMemory] Update session error:', e);
     }
@@ -315,6 +410,7 @@ export const useEdgeMemory = (
             memoryType: 'insight',
             content: fact.content,
             importance: fact.importance,
+            confidence: fact.confidence,
             topicTags: []
           });
         }
@@ -335,6 +431,12 @@ export const useEdgeMemory = (
 
   const getContext = useCallback(() => state, [state]);
 
+  const memoryIndex = useMemo(() => new MemoryIndex(state.memories), [state.memories]);
+
+  const recall = useCallback((query: string, opts: RecallOptions = {}) => (
+    memoryIndex.search(query, { ...opts, embed: embedRef.current, embeddingCache: embeddingCache.current })
+  ), [memoryIndex]);
+
   return {
     ...state,
     storeMemory,
@@ -342,7 +444,8 @@ export const useEdgeMemory = (
     updateSession,
     extractInsights,
     rehydrate,
-    getContext
+    getContext,
+    recall
   };
 };
 